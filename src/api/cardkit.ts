@@ -0,0 +1,132 @@
+/**
+ * CardKit card entity operations (card JSON 2.0).
+ * Used for native streaming cards: create an entity, stream element content,
+ * then replace the card with its final state.
+ */
+
+import type { Config } from "../config/schema.js";
+import type { SendResult } from "../types/index.js";
+import { getApiClient } from "./client.js";
+import { scheduleOutbound } from "./rate-limit.js";
+import { sendCardMessage } from "./messages.js";
+
+// Types
+
+interface CardKitResponse {
+  code?: number;
+  msg?: string;
+  data?: {
+    card_id?: string;
+  };
+}
+
+export interface SendCardEntityParams {
+  to: string;
+  cardId: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}
+
+export interface StreamCardContentParams {
+  cardId: string;
+  elementId: string;
+  /** Full element text; Feishu animates the difference to the previous content */
+  content: string;
+  /** Strictly increasing operation number per card */
+  sequence: number;
+}
+
+function assertOk(response: CardKitResponse, action: string): void {
+  if (response.code !== 0) {
+    throw new Error(`${action} failed: ${response.msg ?? `code ${response.code}`}`);
+  }
+}
+
+// Card Entity
+
+/**
+ * Create a card entity from card JSON 2.0.
+ *
+ * @returns The card_id
+ * @throws Error if creation fails
+ */
+export async function createCardEntity(
+  config: Config,
+  card: Record<string, unknown>
+): Promise<string> {
+  const client = getApiClient(config);
+
+  const response = (await scheduleOutbound(config, {}, () =>
+    client.cardkit.v1.card.create({
+      data: { type: "card_json", data: JSON.stringify(card) },
+    })
+  )) as CardKitResponse;
+
+  assertOk(response, "Card entity create");
+  const cardId = response.data?.card_id;
+  if (!cardId) {
+    throw new Error("Card entity create failed: no card_id returned");
+  }
+  return cardId;
+}
+
+/**
+ * Send a card entity as an interactive message.
+ *
+ * @throws Error if target is invalid or send fails
+ */
+export async function sendCardEntity(
+  config: Config,
+  params: SendCardEntityParams
+): Promise<SendResult> {
+  return sendCardMessage(config, {
+    to: params.to,
+    card: { type: "card", data: { card_id: params.cardId } },
+    replyToMessageId: params.replyToMessageId,
+    replyInThread: params.replyInThread,
+  });
+}
+
+/**
+ * Replace the content of a text/markdown element (streaming update).
+ *
+ * @throws Error if update fails
+ */
+export async function streamCardContent(
+  config: Config,
+  params: StreamCardContentParams
+): Promise<void> {
+  const client = getApiClient(config);
+
+  const response = (await scheduleOutbound(config, { target: params.cardId }, () =>
+    client.cardkit.v1.cardElement.content({
+      path: { card_id: params.cardId, element_id: params.elementId },
+      data: { content: params.content, sequence: params.sequence },
+    })
+  )) as CardKitResponse;
+
+  assertOk(response, "Card content stream");
+}
+
+/**
+ * Replace a card entity with new card JSON 2.0.
+ *
+ * @throws Error if update fails
+ */
+export async function updateCardEntity(
+  config: Config,
+  cardId: string,
+  card: Record<string, unknown>,
+  sequence: number
+): Promise<void> {
+  const client = getApiClient(config);
+
+  const response = (await scheduleOutbound(config, { target: cardId }, () =>
+    client.cardkit.v1.card.update({
+      path: { card_id: cardId },
+      data: { card: { type: "card_json", data: JSON.stringify(card) }, sequence },
+    })
+  )) as CardKitResponse;
+
+  assertOk(response, "Card entity update");
+}
@@ -1,21 +1,27 @@
 /**
  * Feishu API client wrapper.
- * Provides singleton access to the Lark SDK client with connection pooling.
+ * Provides pooled access to Lark SDK clients, one per Feishu app.
  */
 
 import * as Lark from "@larksuiteoapi/node-sdk";
 import type { Config, Credentials } from "../config/schema.js";
-import { resolveCredentials } from "../config/schema.js";
+import { normalizeAccountId, resolveCredentials } from "../config/schema.js";
 import type { ProbeResult } from "../types/index.js";
 
-// Client Cache (Singleton Pattern)
+// Client Pool (keyed by appId + domain)
 
 interface CachedClient {
   client: Lark.Client;
   credentials: Credentials;
+  /** Account IDs that resolved to this client, used for targeted eviction */
+  accountIds: Set<string>;
 }
 
-let cachedClient: CachedClient | null = null;
+const clientPool = new Map<string, CachedClient>();
+
+function getPoolKey(credentials: Credentials): string {
+  return `${credentials.domain}:${credentials.appId}`;
+}
 
 /**
  * Resolve Lark domain enum from config.
@@ -25,36 +31,39 @@ function resolveDomain(domain: "feishu" | "lark"): Lark.Domain {
 }
 
 /**
- * Create or retrieve the Feishu API client.
- * Uses singleton pattern with credential-based cache invalidation.
+ * Create or retrieve the Feishu API client for an account.
+ * Clients are pooled per appId + domain, so several accounts can alternate
+ * calls without rebuilding clients. Each pooled client owns its token cache,
+ * so the tenant access token is reused until the client is evicted.
  *
  * @throws Error if credentials are not configured
  */
-export function getApiClient(config: Config): Lark.Client {
-  const credentials = resolveCredentials(config);
+export function getApiClient(config: Config, accountId?: string | null): Lark.Client {
+  const credentials = resolveCredentials(config, accountId);
   if (!credentials) {
     throw new Error("Feishu credentials not configured (appId, appSecret required)");
   }
 
-  // Return cached client if credentials match
-  if (
-    cachedClient &&
-    cachedClient.credentials.appId === credentials.appId &&
-    cachedClient.credentials.appSecret === credentials.appSecret &&
-    cachedClient.credentials.domain === credentials.domain
-  ) {
-    return cachedClient.client;
+  const key = getPoolKey(credentials);
+  const cached = clientPool.get(key);
+
+  // Reuse pooled client unless the secret was rotated
+  if (cached && cached.credentials.appSecret === credentials.appSecret) {
+    if (accountId) cached.accountIds.add(normalizeAccountId(accountId));
+    return cached.client;
   }
 
-  // Create new client
   const client = new Lark.Client({
     appId: credentials.appId,
     appSecret: credentials.appSecret,
     appType: Lark.AppType.SelfBuild,
     domain: resolveDomain(credentials.domain),
+    cache: new Lark.DefaultCache(),
   });
 
-  cachedClient = { client, credentials };
+  const accountIds = new Set(cached?.accountIds);
+  if (accountId) accountIds.add(normalizeAccountId(accountId));
+  clientPool.set(key, { client, credentials, accountIds });
   return client;
 }
 
@@ -63,8 +72,8 @@ export function getApiClient(config: Config): Lark.Client {
  *
  * @throws Error if credentials are not configured
  */
-export function createWsClient(config: Config): Lark.WSClient {
-  const credentials = resolveCredentials(config);
+export function createWsClient(config: Config, accountId?: string | null): Lark.WSClient {
+  const credentials = resolveCredentials(config, accountId);
   if (!credentials) {
     throw new Error("Feishu credentials not configured (appId, appSecret required)");
   }
@@ -78,28 +87,42 @@ export function createWsClient(config: Config): Lark.WSClient {
 }
 
 /**
- * Clear the client cache.
- * Useful for testing or when credentials change.
+ * Evict pooled clients (and their cached tenant tokens).
+ * With an accountId (or appId), only clients used by that account are evicted;
+ * without one, the whole pool is cleared.
  */
-export function clearClientCache(): void {
-  cachedClient = null;
+export function clearClientCache(accountId?: string | null): void {
+  if (accountId === undefined || accountId === null) {
+    clientPool.clear();
+    return;
+  }
+
+  const normalizedId = normalizeAccountId(accountId);
+  for (const [key, entry] of clientPool) {
+    if (entry.accountIds.has(normalizedId) || entry.credentials.appId === accountId.trim()) {
+      clientPool.delete(key);
+    }
+  }
 }
 
 /**
  * Probe the Feishu API to verify credentials and get bot info.
  */
-export async function probeConnection(config: Config | undefined): Promise<ProbeResult> {
+export async function probeConnection(
+  config: Config | undefined,
+  accountId?: string | null
+): Promise<ProbeResult> {
   if (!config) {
     return { ok: false, error: "Configuration not provided" };
   }
 
-  const credentials = resolveCredentials(config);
+  const credentials = resolveCredentials(config, accountId);
   if (!credentials) {
     return { ok: false, error: "Credentials not configured" };
   }
 
   try {
-    const client = getApiClient(config);
+    const client = getApiClient(config, accountId);
 
     // Use bot info endpoint to verify credentials and get bot identity
     const response = (await client.request({
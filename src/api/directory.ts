@@ -1,12 +1,13 @@
 /** User and group directory operations */
 
 import type { Config } from "../config/schema.js";
-import type { DirectoryUser, DirectoryGroup, ListDirectoryParams } from "../types/index.js";
+import type { DirectoryUser, DirectoryGroup, ListDirectoryParams, ChatType } from "../types/index.js";
 import { getApiClient } from "./client.js";
 import { resolveCredentials } from "../config/schema.js";
 import { normalizeTarget } from "./messages.js";
 
 const userCache = new Map<string, DirectoryUser>();
+const chatTypeCache = new Map<string, ChatType>();
 
 function collectIds(sources: (Record<string, unknown> | (string | number)[] | undefined)[]): Set<string> {
   const ids = new Set<string>();
@@ -67,6 +68,28 @@ export async function getUserByUnionId(config: Config, unionId: string): Promise
   return getUserById(config, unionId, "union_id");
 }
 
+interface GetChatResponse { code?: number; msg?: string; data?: { chat_mode?: string } }
+
+/** Resolve whether a chat is a DM ("p2p") or a group. Returns null if the lookup fails. */
+export async function getChatType(config: Config, chatId: string): Promise<ChatType | null> {
+  const cached = chatTypeCache.get(chatId);
+  if (cached) return cached;
+  if (!resolveCredentials(config)) return null;
+  try {
+    const response = (await getApiClient(config).im.chat.get({ path: { chat_id: chatId } })) as GetChatResponse;
+    if (response.code !== 0) {
+      console.warn(`[feishu] getChat failed: code=${response.code} msg=${response.msg} (${chatId})`);
+      return null;
+    }
+    const chatType: ChatType = response.data?.chat_mode === "p2p" ? "p2p" : "group";
+    chatTypeCache.set(chatId, chatType);
+    return chatType;
+  } catch (e) {
+    console.warn(`[feishu] getChat exception: ${e instanceof Error ? e.message : e}`);
+    return null;
+  }
+}
+
 export async function listUsers(config: Config, params: ListDirectoryParams): Promise<DirectoryUser[]> {
   if (!resolveCredentials(config)) return listUsersFromConfig(config, params);
   try {
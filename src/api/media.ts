@@ -3,17 +3,46 @@
  */
 
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
+import { execFile } from "node:child_process";
 import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
 import type { Config } from "../config/schema.js";
 import type {
   UploadImageParams, UploadFileParams, DownloadImageParams, DownloadFileParams,
   SendMediaParams, SendResult, ImageUploadResult, FileUploadResult, FileType,
-  SendImageParams, SendFileParams,
+  SendImageParams, SendFileParams, SendVideoParams,
 } from "../types/index.js";
 import { getApiClient } from "./client.js";
+import { scheduleOutbound } from "./rate-limit.js";
 import { normalizeTarget, resolveReceiveIdType } from "./messages.js";
 
+/** Size limit when `mediaMaxMb` is not set (Feishu's file upload limit) */
+const DEFAULT_MEDIA_MAX_MB = 30;
+
+/** Thrown when inbound or outbound media exceeds `mediaMaxMb` */
+export class MediaTooLargeError extends Error {
+  constructor(readonly size: number, readonly maxBytes: number) {
+    super(`Media too large: ${formatMb(size)} exceeds the ${formatMb(maxBytes)} limit (mediaMaxMb)`);
+    this.name = "MediaTooLargeError";
+  }
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+}
+
+/** Media size limit in bytes (`mediaMaxMb`, default 30 MB) */
+export function getMediaMaxBytes(config: Config): number {
+  return (config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+}
+
+function assertContentLength(value: unknown, maxBytes: number): void {
+  const size = Number(value);
+  if (size > maxBytes) throw new MediaTooLargeError(size, maxBytes);
+}
+
 // SDK image optimization (HEIC conversion, smart compression)
 type LoadWebMediaFn = (url: string, maxBytes?: number) => Promise<{ buffer: Buffer; contentType: string; fileName?: string }>;
 let sdkLoadWebMedia: LoadWebMediaFn | null = null;
@@ -59,6 +88,120 @@ export function detectFileType(fileName: string): FileType {
   }
 }
 
+/**
+ * Duration of an Ogg Opus file in ms: the last page's granule position
+ * (48 kHz samples) minus the OpusHead pre-skip. Undefined if not Ogg Opus.
+ */
+export function getOpusDuration(buffer: Buffer): number | undefined {
+  if (buffer.length < 28 || buffer.toString("latin1", 0, 4) !== "OggS") return undefined;
+  const head = buffer.indexOf("OpusHead", 0, "latin1");
+  if (head < 0 || head + 12 > buffer.length) return undefined;
+  const preSkip = buffer.readUInt16LE(head + 10);
+
+  for (let i = buffer.length - 27; i >= 0; i--) {
+    if (buffer[i] !== 0x4f || buffer.toString("latin1", i, i + 4) !== "OggS") continue;
+    const granule = buffer.readBigInt64LE(i + 6);
+    if (granule < 0n) continue; // -1: no packet ends on this page
+    return Math.max(0, Math.round((Number(granule) - preSkip) / 48));
+  }
+  return undefined;
+}
+
+const AUDIO_EXTS = [".opus", ".ogg", ".mp3", ".wav", ".m4a", ".aac", ".flac", ".amr"];
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+function isAudioExtension(fileName: string): boolean {
+  return AUDIO_EXTS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Run ffmpeg (must be on PATH) on a buffer or file and read the output file.
+ * Returns null if ffmpeg is missing or fails.
+ */
+async function runFfmpeg(
+  input: Buffer | string,
+  outputName: string,
+  outputArgs: string[]
+): Promise<{ output: Buffer; stderr: string } | null> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "feishu-ffmpeg-"));
+  try {
+    const inputPath = typeof input === "string" ? input : path.join(dir, "input");
+    if (typeof input !== "string") await fs.promises.writeFile(inputPath, input);
+    const outputPath = path.join(dir, outputName);
+    const args = ["-y", "-i", inputPath, ...outputArgs, outputPath];
+    const stderr = await new Promise<string>((resolve, reject) => {
+      execFile("ffmpeg", args, { timeout: FFMPEG_TIMEOUT_MS }, (err, _stdout, errOut) => (err ? reject(err) : resolve(String(errOut))));
+    });
+    return { output: await fs.promises.readFile(outputPath), stderr };
+  } catch {
+    return null;
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** Convert audio to Ogg Opus; null if the conversion fails */
+async function convertToOpus(input: Buffer | string): Promise<Buffer | null> {
+  const result = await runFfmpeg(input, "output.opus", ["-vn", "-c:a", "libopus", "-b:a", "32k", "-f", "ogg"]);
+  return result?.output ?? null;
+}
+
+/**
+ * Prepare audio for a voice message: Ogg Opus as is, other formats converted.
+ * Returns null if the audio cannot be turned into Opus.
+ */
+async function prepareVoice(media: Buffer | string): Promise<{ audio: Buffer; duration: number } | null> {
+  const buffer = typeof media === "string" ? await fs.promises.readFile(media) : media;
+  const duration = getOpusDuration(buffer);
+  if (duration !== undefined) return { audio: buffer, duration };
+
+  const converted = await convertToOpus(media);
+  const convertedDuration = converted ? getOpusDuration(converted) : undefined;
+  if (!converted || convertedDuration === undefined) return null;
+  return { audio: converted, duration: convertedDuration };
+}
+
+/**
+ * Duration of an MP4/MOV file in ms, from the movie header (mvhd) box.
+ * Undefined if the header is missing or truncated.
+ */
+export function getMp4Duration(buffer: Buffer): number | undefined {
+  const box = buffer.indexOf("mvhd", 0, "latin1");
+  if (box < 4) return undefined;
+  const version = buffer[box + 4];
+  const timescaleOffset = box + 4 + (version === 1 ? 20 : 12);
+  const durationOffset = timescaleOffset + 4;
+  if (durationOffset + (version === 1 ? 8 : 4) > buffer.length) return undefined;
+
+  const timescale = buffer.readUInt32BE(timescaleOffset);
+  const duration = version === 1 ? Number(buffer.readBigUInt64BE(durationOffset)) : buffer.readUInt32BE(durationOffset);
+  return timescale ? Math.round((duration / timescale) * 1000) : undefined;
+}
+
+/** Only MP4 plays in a media message; other video containers are sent as files */
+function isMp4Extension(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() === ".mp4";
+}
+
+/**
+ * Cover and duration for a video message. The cover is the given image or the
+ * first frame (via ffmpeg); the duration comes from the MP4 header, else from
+ * ffmpeg's output. Returns null if there is no cover.
+ */
+async function prepareVideo(media: Buffer | string, cover?: Buffer): Promise<{ cover: Buffer; duration?: number } | null> {
+  const frame = cover ? null : await runFfmpeg(media, "cover.jpg", ["-frames:v", "1", "-q:v", "3"]);
+  const coverImage = cover ?? frame?.output;
+  if (!coverImage) return null;
+
+  const buffer = typeof media === "string" ? await fs.promises.readFile(media) : media;
+  let duration = getMp4Duration(buffer);
+  const match = frame?.stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (duration === undefined && match) {
+    duration = Math.round((Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])) * 1000);
+  }
+  return { cover: coverImage, duration };
+}
+
 const IMAGE_EXTS = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".ico", ".tiff"];
 
 function isImageExtension(fileName: string): boolean {
@@ -95,9 +238,19 @@ function resolveFilePath(inputPath: string): string | null {
   return null;
 }
 
-async function readStreamToBuffer(stream: Readable): Promise<Buffer> {
+/** Read a stream into memory, aborting once it exceeds maxBytes */
+async function readStreamToBuffer(stream: Readable, maxBytes = Infinity): Promise<Buffer> {
   const chunks: Buffer[] = [];
-  for await (const chunk of stream) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  let size = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new MediaTooLargeError(size, maxBytes);
+    }
+    chunks.push(buffer);
+  }
   return Buffer.concat(chunks);
 }
 
@@ -119,9 +272,10 @@ interface ApiResponse { code?: number; msg?: string; image_key?: string; file_ke
 /** Upload an image to Feishu */
 export async function uploadImage(config: Config, params: UploadImageParams): Promise<ImageUploadResult> {
   const client = getApiClient(config);
-  const imageStream = typeof params.image === "string" ? fs.createReadStream(params.image) : Readable.from(params.image);
+  // Stream is created per attempt so a rate-limited upload can be retried
+  const openImage = () => typeof params.image === "string" ? fs.createReadStream(params.image) : Readable.from(params.image);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const response = (await client.im.image.create({ data: { image_type: params.imageType ?? "message", image: imageStream as any } })) as ApiResponse;
+  const response = (await scheduleOutbound(config, {}, () => client.im.image.create({ data: { image_type: params.imageType ?? "message", image: openImage() as any } }))) as ApiResponse;
   if (response.code !== undefined && response.code !== 0) throw new Error(`Image upload failed: ${response.msg ?? `code ${response.code}`}`);
   const imageKey = response.image_key ?? response.data?.image_key;
   if (!imageKey) throw new Error("Image upload failed: no image_key returned");
@@ -131,11 +285,11 @@ export async function uploadImage(config: Config, params: UploadImageParams): Pr
 /** Upload a file to Feishu (max 30MB) */
 export async function uploadFile(config: Config, params: UploadFileParams): Promise<FileUploadResult> {
   const client = getApiClient(config);
-  const fileStream = typeof params.file === "string" ? fs.createReadStream(params.file) : Readable.from(params.file);
-  const response = (await client.im.file.create({
+  const openFile = () => typeof params.file === "string" ? fs.createReadStream(params.file) : Readable.from(params.file);
+  const response = (await scheduleOutbound(config, {}, () => client.im.file.create({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    data: { file_type: params.fileType, file_name: params.fileName, file: fileStream as any, ...(params.duration !== undefined ? { duration: params.duration } : {}) },
-  })) as ApiResponse;
+    data: { file_type: params.fileType, file_name: params.fileName, file: openFile() as any, ...(params.duration !== undefined ? { duration: params.duration } : {}) },
+  }))) as ApiResponse;
   if (response.code !== undefined && response.code !== 0) throw new Error(`File upload failed: ${response.msg ?? `code ${response.code}`}`);
   const fileKey = response.file_key ?? response.data?.file_key;
   if (!fileKey) throw new Error("File upload failed: no file_key returned");
@@ -148,12 +302,27 @@ export async function downloadImage(config: Config, params: DownloadImageParams)
   return normalizeBinaryResponse(await client.request({ method: "GET", url: `/open-apis/im/v1/images/${encodeURIComponent(params.imageKey)}`, responseType: "arraybuffer" } as Record<string, unknown>));
 }
 
-/** Download a message resource (image, file, video) from a user's message */
+/**
+ * Download a message resource (image, file, video) from a user's message.
+ * Streamed with the `mediaMaxMb` cap; aborted early if content-length is over it.
+ *
+ * @throws MediaTooLargeError if the resource exceeds `mediaMaxMb`
+ */
 export async function downloadMessageResource(config: Config, params: { messageId: string; fileKey: string; type: "image" | "file" | "video" }): Promise<Buffer> {
   const client = getApiClient(config);
+  const maxBytes = getMediaMaxBytes(config);
   const response = await client.im.messageResource.get({ params: { type: params.type }, path: { message_id: params.messageId, file_key: params.fileKey } });
-  if (response && typeof response.getReadableStream === "function") return readStreamToBuffer(response.getReadableStream());
-  throw new Error("Download failed: unexpected response format");
+  if (!response || typeof response.getReadableStream !== "function") throw new Error("Download failed: unexpected response format");
+
+  const stream = response.getReadableStream();
+  const headers = response.headers as Record<string, unknown> | undefined;
+  try {
+    assertContentLength(headers?.["content-length"], maxBytes);
+  } catch (err) {
+    stream.destroy();
+    throw err;
+  }
+  return readStreamToBuffer(stream, maxBytes);
 }
 
 /** Download a file by file_key */
@@ -166,16 +335,17 @@ async function sendMediaMessage(
   config: Config,
   to: string,
   content: string,
-  msgType: "image" | "file",
-  replyToMessageId?: string
+  msgType: "image" | "file" | "audio" | "media",
+  replyToMessageId?: string,
+  replyInThread?: boolean
 ): Promise<SendResult> {
   const client = getApiClient(config);
   const receiveId = normalizeTarget(to);
   if (!receiveId) throw new Error(`Invalid target: ${to}`);
 
-  const response = replyToMessageId
-    ? (await client.im.message.reply({ path: { message_id: replyToMessageId }, data: { content, msg_type: msgType } })) as ApiResponse
-    : (await client.im.message.create({ params: { receive_id_type: resolveReceiveIdType(receiveId) }, data: { receive_id: receiveId, content, msg_type: msgType } })) as ApiResponse;
+  const response = (await scheduleOutbound(config, { target: receiveId }, () => replyToMessageId
+    ? client.im.message.reply({ path: { message_id: replyToMessageId }, data: { content, msg_type: msgType, reply_in_thread: replyInThread } })
+    : client.im.message.create({ params: { receive_id_type: resolveReceiveIdType(receiveId) }, data: { receive_id: receiveId, content, msg_type: msgType } }))) as ApiResponse;
 
   if (response.code !== 0) throw new Error(`${msgType} send failed: ${response.msg ?? `code ${response.code}`}`);
   return { messageId: response.data?.message_id ?? "unknown", chatId: receiveId };
@@ -183,66 +353,158 @@ async function sendMediaMessage(
 
 /** Send an image message using an image_key */
 export async function sendImage(config: Config, params: SendImageParams): Promise<SendResult> {
-  return sendMediaMessage(config, params.to, JSON.stringify({ image_key: params.imageKey }), "image", params.replyToMessageId);
+  return sendMediaMessage(config, params.to, JSON.stringify({ image_key: params.imageKey }), "image", params.replyToMessageId, params.replyInThread);
 }
 
 /** Send a file message using a file_key */
 export async function sendFile(config: Config, params: SendFileParams): Promise<SendResult> {
-  return sendMediaMessage(config, params.to, JSON.stringify({ file_key: params.fileKey }), "file", params.replyToMessageId);
+  return sendMediaMessage(config, params.to, JSON.stringify({ file_key: params.fileKey }), "file", params.replyToMessageId, params.replyInThread);
+}
+
+/** Send a voice message using the file_key of an uploaded opus file */
+export async function sendAudio(config: Config, params: SendFileParams): Promise<SendResult> {
+  return sendMediaMessage(config, params.to, JSON.stringify({ file_key: params.fileKey }), "audio", params.replyToMessageId, params.replyInThread);
+}
+
+/** Send a video message using an uploaded mp4 file_key and cover image_key */
+export async function sendVideo(config: Config, params: SendVideoParams): Promise<SendResult> {
+  return sendMediaMessage(config, params.to, JSON.stringify({ file_key: params.fileKey, image_key: params.imageKey }), "media", params.replyToMessageId, params.replyInThread);
 }
 
-async function fetchUrl(url: string): Promise<Buffer> {
-  const response = await fetch(url);
+async function fetchUrl(url: string, maxBytes: number): Promise<Buffer> {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
   if (!response.ok) throw new Error(`Failed to fetch media from URL: ${response.status}`);
-  return Buffer.from(await response.arrayBuffer());
+  if (!response.body) return Buffer.alloc(0);
+  try {
+    assertContentLength(response.headers.get("content-length"), maxBytes);
+    return await readStreamToBuffer(Readable.fromWeb(response.body as WebReadableStream), maxBytes);
+  } catch (err) {
+    controller.abort();
+    throw err;
+  }
+}
+
+/**
+ * Shrink an oversized image (file path or buffer) with the SDK optimizer;
+ * null if unavailable or still too large. Buffers go through a temp file.
+ */
+async function compressImage(source: Buffer | string, fileName: string, maxBytes: number): Promise<Buffer | null> {
+  if (!sdkLoadWebMedia) return null;
+  if (typeof source !== "string") {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "feishu-image-"));
+    try {
+      const imagePath = path.join(dir, `image${path.extname(fileName)}`);
+      await fs.promises.writeFile(imagePath, source);
+      return await compressImage(imagePath, fileName, maxBytes);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+  try {
+    const { buffer } = await sdkLoadWebMedia(source, maxBytes);
+    return buffer.length <= maxBytes ? buffer : null;
+  } catch {
+    return null;
+  }
 }
 
 function getNameFromUrl(url: string, fallback = "file"): string {
   return path.basename(new URL(url).pathname) || fallback;
 }
 
-/** Upload and send media (image or file) from URL, local path, or buffer */
+/** Load a video cover from a buffer, local path or URL (paths and URLs capped at maxBytes) */
+async function loadCover(cover: Buffer | string, maxBytes: number): Promise<Buffer> {
+  if (typeof cover !== "string") return cover;
+  if (!isLocalPath(cover)) return fetchUrl(cover, maxBytes);
+  const resolvedPath = resolveFilePath(cover);
+  if (!resolvedPath) throw new Error(`Local file not found: ${cover}`);
+  return readStreamToBuffer(fs.createReadStream(resolvedPath), maxBytes);
+}
+
+/**
+ * Upload and send media (image, voice, video or file) from URL, local path, or buffer.
+ * Media over `mediaMaxMb` is refused; oversized images are compressed first when the
+ * SDK optimizer is available (remote images while they are loaded, before the size check).
+ * Audio is sent as a voice message (converted to Opus if needed), or as a file
+ * if it cannot be converted. MP4 video is sent as a media message with a cover
+ * (`cover` or the first frame), or as a file if no cover is available; other
+ * video containers are sent as files.
+ *
+ * @throws MediaTooLargeError if the media exceeds `mediaMaxMb`
+ */
 export async function sendMedia(config: Config, params: SendMediaParams): Promise<SendResult> {
-  if (params.imageKey) return sendImage(config, { to: params.to, imageKey: params.imageKey, replyToMessageId: params.replyToMessageId });
-  if (params.fileKey) return sendFile(config, { to: params.to, fileKey: params.fileKey, replyToMessageId: params.replyToMessageId });
+  if (params.imageKey) return sendImage(config, { to: params.to, imageKey: params.imageKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
+  if (params.fileKey) return sendFile(config, { to: params.to, fileKey: params.fileKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
 
-  let buffer: Buffer;
+  const maxBytes = getMediaMaxBytes(config);
+  // Buffer, or a local path that is streamed on upload
+  let media: Buffer | string;
+  let size: number;
   let name: string;
 
   if (params.mediaBuffer) {
-    buffer = params.mediaBuffer;
+    media = params.mediaBuffer;
+    size = media.length;
     name = params.fileName ?? "file";
   } else if (params.mediaUrl) {
     if (isLocalPath(params.mediaUrl)) {
       const resolvedPath = resolveFilePath(params.mediaUrl);
       if (!resolvedPath) throw new Error(`Local file not found: ${params.mediaUrl}`);
-      buffer = fs.readFileSync(resolvedPath);
+      media = resolvedPath;
+      size = (await fs.promises.stat(resolvedPath)).size;
       name = params.fileName ?? path.basename(resolvedPath);
     } else {
       // Remote URL - try SDK optimization for images (HEIC conversion, smart compression)
-      const maxBytes = config.mediaMaxMb ? config.mediaMaxMb * 1024 * 1024 : 20 * 1024 * 1024;
       if (sdkLoadWebMedia && isImageExtension(params.fileName ?? params.mediaUrl)) {
         try {
           const result = await sdkLoadWebMedia(params.mediaUrl, maxBytes);
-          buffer = result.buffer;
+          media = result.buffer;
           name = params.fileName ?? result.fileName ?? getNameFromUrl(params.mediaUrl, "image.jpg");
         } catch {
-          buffer = await fetchUrl(params.mediaUrl);
+          media = await fetchUrl(params.mediaUrl, maxBytes);
           name = params.fileName ?? getNameFromUrl(params.mediaUrl);
         }
       } else {
-        buffer = await fetchUrl(params.mediaUrl);
+        media = await fetchUrl(params.mediaUrl, maxBytes);
         name = params.fileName ?? getNameFromUrl(params.mediaUrl);
       }
+      size = media.length;
     }
   } else {
     throw new Error("Either mediaUrl or mediaBuffer must be provided");
   }
 
+  if (size > maxBytes) {
+    const compressed = isImageExtension(name) ? await compressImage(media, name, maxBytes) : null;
+    if (!compressed) throw new MediaTooLargeError(size, maxBytes);
+    media = compressed;
+  }
+
   if (isImageExtension(name)) {
-    const { imageKey } = await uploadImage(config, { image: buffer });
-    return sendImage(config, { to: params.to, imageKey, replyToMessageId: params.replyToMessageId });
+    const { imageKey } = await uploadImage(config, { image: media });
+    return sendImage(config, { to: params.to, imageKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
+  }
+  if (isAudioExtension(name)) {
+    const voice = await prepareVoice(media);
+    if (voice) {
+      const voiceName = `${path.basename(name, path.extname(name))}.opus`;
+      const { fileKey } = await uploadFile(config, { file: voice.audio, fileName: voiceName, fileType: "opus", duration: voice.duration });
+      return sendAudio(config, { to: params.to, fileKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
+    }
+    // Not Opus and not convertible: plain file attachment
+    const { fileKey } = await uploadFile(config, { file: media, fileName: name, fileType: "stream" });
+    return sendFile(config, { to: params.to, fileKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
+  }
+  if (isMp4Extension(name)) {
+    const cover = params.cover !== undefined ? await loadCover(params.cover, maxBytes) : undefined;
+    const video = await prepareVideo(media, cover);
+    if (video) {
+      const { imageKey } = await uploadImage(config, { image: video.cover });
+      const { fileKey } = await uploadFile(config, { file: media, fileName: name, fileType: "mp4", duration: video.duration });
+      return sendVideo(config, { to: params.to, fileKey, imageKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
+    }
   }
-  const { fileKey } = await uploadFile(config, { file: buffer, fileName: name, fileType: detectFileType(name) });
-  return sendFile(config, { to: params.to, fileKey, replyToMessageId: params.replyToMessageId });
+  const { fileKey } = await uploadFile(config, { file: media, fileName: name, fileType: detectFileType(name) });
+  return sendFile(config, { to: params.to, fileKey, replyToMessageId: params.replyToMessageId, replyInThread: params.replyInThread });
 }
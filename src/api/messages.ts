@@ -6,6 +6,7 @@ import type { Config } from "../config/schema.js";
 import type {
   SendTextParams,
   SendCardParams,
+  SendPostParams,
   EditMessageParams,
   SendResult,
   MessageInfo,
@@ -13,8 +14,10 @@ import type {
   ListMessagesParams,
   ListMessagesResult,
   HistoryMessage,
+  ForwardedMessage,
 } from "../types/index.js";
 import { getApiClient } from "./client.js";
+import { scheduleOutbound } from "./rate-limit.js";
 import { formatMentionsForFeishu } from "../core/parser.js";
 
 // Target Resolution
@@ -69,6 +72,7 @@ interface GetMessageResponse {
   data?: {
     items?: {
       message_id?: string;
+      upper_message_id?: string;
       chat_id?: string;
       msg_type?: string;
       body?: { content?: string };
@@ -124,6 +128,7 @@ export async function getMessage(config: Config, messageId: string): Promise<Mes
       chatId: item.chat_id ?? "",
       senderId: item.sender?.id,
       senderOpenId: item.sender?.id_type === "open_id" ? item.sender?.id : undefined,
+      senderType: item.sender?.sender_type,
       content,
       contentType: item.msg_type ?? "text",
       createTime: item.create_time ? parseInt(item.create_time, 10) : undefined,
@@ -217,6 +222,7 @@ export async function listMessages(
         chatId: item.chat_id ?? params.chatId,
         senderId: item.sender?.id,
         senderOpenId: item.sender?.id_type === "open_id" ? item.sender?.id : undefined,
+        senderType: item.sender?.sender_type,
         content,
         contentType: item.msg_type ?? "text",
         createTime: item.create_time ? parseInt(item.create_time, 10) : undefined,
@@ -236,6 +242,39 @@ export async function listMessages(
   }
 }
 
+/**
+ * Get the messages inside a merged-forward (merge_forward) bundle, in order.
+ * Nested bundles are flattened; each message keeps its upperMessageId.
+ *
+ * @throws Error if the bundle cannot be fetched
+ */
+export async function getMergeForwardMessages(
+  config: Config,
+  messageId: string
+): Promise<ForwardedMessage[]> {
+  const client = getApiClient(config);
+
+  const response = (await client.im.message.get({
+    path: { message_id: messageId },
+  })) as GetMessageResponse;
+
+  if (response.code !== 0) {
+    throw new Error(`Get forwarded messages failed: ${response.msg ?? `code ${response.code}`}`);
+  }
+
+  // The first item is the bundle itself, followed by its sub-messages
+  return (response.data?.items ?? [])
+    .filter((item) => item.message_id && item.message_id !== messageId)
+    .map((item) => ({
+      messageId: item.message_id ?? "",
+      upperMessageId: item.upper_message_id,
+      senderId: item.sender?.id,
+      msgType: item.msg_type ?? "text",
+      content: item.body?.content ?? "",
+      createTime: item.create_time ? parseInt(item.create_time, 10) : undefined,
+    }));
+}
+
 // Message Sending
 
 interface SendMessageResponse {
@@ -267,10 +306,13 @@ export async function sendTextMessage(config: Config, params: SendTextParams): P
 
   // Reply to existing message
   if (params.replyToMessageId) {
-    const response = (await client.im.message.reply({
-      path: { message_id: params.replyToMessageId },
-      data: { content, msg_type: "text" },
-    })) as SendMessageResponse;
+    const replyTo = params.replyToMessageId;
+    const response = (await scheduleOutbound(config, { target: receiveId }, () =>
+      client.im.message.reply({
+        path: { message_id: replyTo },
+        data: { content, msg_type: "text", reply_in_thread: params.replyInThread },
+      })
+    )) as SendMessageResponse;
 
     if (response.code !== 0) {
       throw new Error(`Reply failed: ${response.msg ?? `code ${response.code}`}`);
@@ -283,10 +325,12 @@ export async function sendTextMessage(config: Config, params: SendTextParams): P
   }
 
   // Create new message
-  const response = (await client.im.message.create({
-    params: { receive_id_type: receiveIdType },
-    data: { receive_id: receiveId, content, msg_type: "text" },
-  })) as SendMessageResponse;
+  const response = (await scheduleOutbound(config, { target: receiveId }, () =>
+    client.im.message.create({
+      params: { receive_id_type: receiveIdType },
+      data: { receive_id: receiveId, content, msg_type: "text" },
+    })
+  )) as SendMessageResponse;
 
   if (response.code !== 0) {
     throw new Error(`Send failed: ${response.msg ?? `code ${response.code}`}`);
@@ -298,6 +342,44 @@ export async function sendTextMessage(config: Config, params: SendTextParams): P
   };
 }
 
+/**
+ * Send a rich text (post) message.
+ *
+ * @throws Error if target is invalid or send fails
+ */
+export async function sendPostMessage(config: Config, params: SendPostParams): Promise<SendResult> {
+  const client = getApiClient(config);
+  const receiveId = normalizeTarget(params.to);
+
+  if (!receiveId) {
+    throw new Error(`Invalid target: ${params.to}`);
+  }
+
+  const content = JSON.stringify(params.post);
+  const replyTo = params.replyToMessageId;
+  const response = (await scheduleOutbound(config, { target: receiveId }, () =>
+    replyTo
+      ? client.im.message.reply({
+          path: { message_id: replyTo },
+          data: { content, msg_type: "post", reply_in_thread: params.replyInThread },
+        })
+      : client.im.message.create({
+          params: { receive_id_type: resolveReceiveIdType(receiveId) },
+          data: { receive_id: receiveId, content, msg_type: "post" },
+        })
+  )) as SendMessageResponse;
+
+  if (response.code !== 0) {
+    const action = replyTo ? "Post reply" : "Post send";
+    throw new Error(`${action} failed: ${response.msg ?? `code ${response.code}`}`);
+  }
+
+  return {
+    messageId: response.data?.message_id ?? "unknown",
+    chatId: receiveId,
+  };
+}
+
 /**
  * Send an interactive card message.
  *
@@ -316,10 +398,13 @@ export async function sendCardMessage(config: Config, params: SendCardParams): P
 
   // Reply with card
   if (params.replyToMessageId) {
-    const response = (await client.im.message.reply({
-      path: { message_id: params.replyToMessageId },
-      data: { content, msg_type: "interactive" },
-    })) as SendMessageResponse;
+    const replyTo = params.replyToMessageId;
+    const response = (await scheduleOutbound(config, { target: receiveId }, () =>
+      client.im.message.reply({
+        path: { message_id: replyTo },
+        data: { content, msg_type: "interactive", reply_in_thread: params.replyInThread },
+      })
+    )) as SendMessageResponse;
 
     if (response.code !== 0) {
       throw new Error(`Card reply failed: ${response.msg ?? `code ${response.code}`}`);
@@ -332,10 +417,12 @@ export async function sendCardMessage(config: Config, params: SendCardParams): P
   }
 
   // Create card message
-  const response = (await client.im.message.create({
-    params: { receive_id_type: receiveIdType },
-    data: { receive_id: receiveId, content, msg_type: "interactive" },
-  })) as SendMessageResponse;
+  const response = (await scheduleOutbound(config, { target: receiveId }, () =>
+    client.im.message.create({
+      params: { receive_id_type: receiveIdType },
+      data: { receive_id: receiveId, content, msg_type: "interactive" },
+    })
+  )) as SendMessageResponse;
 
   if (response.code !== 0) {
     throw new Error(`Card send failed: ${response.msg ?? `code ${response.code}`}`);
@@ -360,10 +447,12 @@ export async function updateCard(
   const client = getApiClient(config);
   const content = JSON.stringify(card);
 
-  const response = (await client.im.message.patch({
-    path: { message_id: messageId },
-    data: { content },
-  })) as SendMessageResponse;
+  const response = (await scheduleOutbound(config, { target: messageId }, () =>
+    client.im.message.patch({
+      path: { message_id: messageId },
+      data: { content },
+    })
+  )) as SendMessageResponse;
 
   if (response.code !== 0) {
     throw new Error(`Card update failed: ${response.msg ?? `code ${response.code}`}`);
@@ -382,12 +471,57 @@ export async function editMessage(config: Config, params: EditMessageParams): Pr
   const formattedText = formatMentionsForFeishu(params.text);
   const content = JSON.stringify({ text: formattedText });
 
-  const response = (await client.im.message.update({
-    path: { message_id: params.messageId },
-    data: { msg_type: "text", content },
-  })) as SendMessageResponse;
+  const response = (await scheduleOutbound(config, { target: params.messageId }, () =>
+    client.im.message.update({
+      path: { message_id: params.messageId },
+      data: { msg_type: "text", content },
+    })
+  )) as SendMessageResponse;
 
   if (response.code !== 0) {
     throw new Error(`Edit failed: ${response.msg ?? `code ${response.code}`}`);
   }
 }
+
+/**
+ * Edit an existing post (rich text) message.
+ * Note: Feishu only allows editing messages within 24 hours.
+ *
+ * @throws Error if edit fails
+ */
+export async function editPostMessage(
+  config: Config,
+  messageId: string,
+  post: Record<string, unknown>
+): Promise<void> {
+  const client = getApiClient(config);
+
+  const response = (await scheduleOutbound(config, { target: messageId }, () =>
+    client.im.message.update({
+      path: { message_id: messageId },
+      data: { msg_type: "post", content: JSON.stringify(post) },
+    })
+  )) as SendMessageResponse;
+
+  if (response.code !== 0) {
+    throw new Error(`Post edit failed: ${response.msg ?? `code ${response.code}`}`);
+  }
+}
+
+/**
+ * Recall (delete) a message sent by the bot.
+ * Note: Feishu only allows recalling messages within 24 hours.
+ *
+ * @throws Error if recall fails
+ */
+export async function recallMessage(config: Config, messageId: string): Promise<void> {
+  const client = getApiClient(config);
+
+  const response = (await scheduleOutbound(config, { target: messageId }, () =>
+    client.im.message.delete({ path: { message_id: messageId } })
+  )) as SendMessageResponse;
+
+  if (response.code !== 0) {
+    throw new Error(`Recall failed: ${response.msg ?? `code ${response.code}`}`);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Outbound rate limiting and retry.
+ * Outbound API calls are spaced to per-app and per-chat QPS limits, calls for
+ * the same chat run in order, and frequency-limit errors are retried with
+ * exponential backoff.
+ */
+
+import type { Config } from "../config/schema.js";
+
+// Constants
+
+/** Feishu error codes that signal a frequency limit (safe to retry) */
+export const RETRYABLE_CODES: ReadonlySet<number> = new Set([230020, 99991400]);
+
+const DEFAULT_APP_QPS = 50;
+const DEFAULT_CHAT_QPS = 5;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+const LIMITER_SWEEP_SIZE = 1000;
+
+// Types
+
+export interface OutboundOptions {
+  /** Chat (or message) the call targets; calls with the same target run in order */
+  target?: string;
+}
+
+interface RetryHint {
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+// State
+
+/** Next free slot per limiter key (app or app+chat) */
+const nextSlotAt = new Map<string, number>();
+/** Tail of the ordered call chain per app+chat */
+const chatChains = new Map<string, Promise<unknown>>();
+
+// Helpers
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/**
+ * Reserve the next request slot for a key at the given QPS.
+ * Returns how long the caller must wait before sending.
+ */
+function reserveSlot(key: string, qps: number): number {
+  const now = Date.now();
+  if (nextSlotAt.size > LIMITER_SWEEP_SIZE) {
+    for (const [k, at] of nextSlotAt) if (at < now) nextSlotAt.delete(k);
+  }
+  const at = Math.max(now, nextSlotAt.get(key) ?? 0);
+  nextSlotAt.set(key, at + 1000 / qps);
+  return at - now;
+}
+
+function parseRetryAfter(headers: unknown): number | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  const h = headers as Record<string, unknown>;
+  const value = Number(h["x-ogw-ratelimit-reset"] ?? h["retry-after"]);
+  return Number.isFinite(value) && value > 0 ? value * 1000 : undefined;
+}
+
+/**
+ * Inspect an SDK response or thrown error for a frequency-limit signal.
+ */
+export function getRetryHint(value: unknown): RetryHint {
+  if (!value || typeof value !== "object") return { retryable: false };
+  const obj = value as {
+    code?: unknown;
+    response?: { status?: number; headers?: unknown; data?: { code?: unknown } };
+  };
+  if (typeof obj.code === "number" && RETRYABLE_CODES.has(obj.code)) {
+    return { retryable: true };
+  }
+  const response = obj.response;
+  if (response) {
+    const code = response.data?.code;
+    if (response.status === 429 || (typeof code === "number" && RETRYABLE_CODES.has(code))) {
+      return { retryable: true, retryAfterMs: parseRetryAfter(response.headers) };
+    }
+  }
+  return { retryable: false };
+}
+
+function backoffDelay(config: Config, attempt: number, hint: RetryHint): number {
+  const base = config.rateLimit?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const delay = hint.retryAfterMs ?? base * Math.pow(2, attempt);
+  return Math.min(delay, MAX_DELAY_MS);
+}
+
+async function callWithRetry<T>(
+  config: Config,
+  appKey: string,
+  target: string | undefined,
+  call: () => Promise<T>
+): Promise<T> {
+  const appQps = config.rateLimit?.appQps ?? DEFAULT_APP_QPS;
+  const chatQps = config.rateLimit?.chatQps ?? DEFAULT_CHAT_QPS;
+  const maxRetries = config.rateLimit?.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = Math.max(
+      reserveSlot(appKey, appQps),
+      target ? reserveSlot(`${appKey}:${target}`, chatQps) : 0
+    );
+    await sleep(wait);
+
+    let hint: RetryHint;
+    try {
+      const result = await call();
+      hint = getRetryHint(result);
+      if (!hint.retryable || attempt >= maxRetries) return result;
+    } catch (err) {
+      hint = getRetryHint(err);
+      if (!hint.retryable || attempt >= maxRetries) throw err;
+    }
+
+    await sleep(backoffDelay(config, attempt, hint));
+  }
+}
+
+// Scheduler
+
+/**
+ * Run an outbound API call through the scheduler.
+ * The call's response (or error) is returned unchanged once it is not a
+ * frequency-limit error or retries are exhausted.
+ */
+export function scheduleOutbound<T>(
+  config: Config,
+  options: OutboundOptions,
+  call: () => Promise<T>
+): Promise<T> {
+  const appKey = `${config.domain ?? "feishu"}:${config.appId ?? ""}`;
+  const { target } = options;
+  if (!target) return callWithRetry(config, appKey, undefined, call);
+
+  // Chain behind earlier calls for the same target to keep chunks in order
+  const chainKey = `${appKey}:${target}`;
+  const previous = chatChains.get(chainKey) ?? Promise.resolve();
+  const run = () => callWithRetry(config, appKey, target, call);
+  const result = previous.then(run, run);
+  const tail = result.catch(() => undefined);
+  chatChains.set(chainKey, tail);
+  void tail.then(() => {
+    if (chatChains.get(chainKey) === tail) chatChains.delete(chainKey);
+  });
+  return result;
+}
+
+/**
+ * Reset limiter state (for tests).
+ */
+export function resetOutboundScheduler(): void {
+  nextSlotAt.clear();
+  chatChains.clear();
+}
@@ -6,12 +6,13 @@ import { z } from "zod";
 export const DmPolicySchema = z.enum(["open", "pairing", "allowlist"]);
 export const GroupPolicySchema = z.enum(["open", "allowlist", "disabled"]);
 export const DomainSchema = z.enum(["feishu", "lark"]);
-export const ConnectionModeSchema = z.literal("websocket");
+export const ConnectionModeSchema = z.enum(["websocket", "webhook"]);
 export const MarkdownModeSchema = z.enum(["native", "escape", "strip"]);
 export const TableModeSchema = z.enum(["native", "ascii", "simple"]);
 export const ChunkModeSchema = z.enum(["length", "newline"]);
 export const HeartbeatVisibilitySchema = z.enum(["visible", "hidden"]);
 export const ReplyToModeSchema = z.enum(["off", "first", "all"]);
+export const DedupStoreTypeSchema = z.enum(["file", "memory"]);
 
 // Sub-schemas
 export const ToolPolicySchema = z
@@ -71,6 +72,118 @@ export const StreamingCardSchema = z
     title: z.string().optional(),
     /** Update interval in ms for streaming card (default: 200ms) */
     updateIntervalMs: z.number().int().positive().optional(),
+    /** Use CardKit native streaming, falling back to full-card updates (default: true) */
+    cardkit: z.boolean().optional(),
+    /** Placeholder shown until the first content arrives (default: "Thinking…") */
+    placeholder: z.string().optional(),
+    /** Footer note on the finished card, empty string disables it (default: "Done") */
+    footer: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Interactive card callback settings */
+export const CardActionsSchema = z
+  .object({
+    /** Deliver card.action.trigger callbacks to the agent (default: true) */
+    enabled: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Handling of messages recalled by their sender */
+export const RecallSchema = z
+  .object({
+    /** Recall the bot's replies along with the message (default: true) */
+    retractReplies: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Action of an emoji command */
+export const ReactionCommandSchema = z.enum(["regenerate", "resolve"]);
+
+/** Reactions to bot messages */
+export const ReactionsSchema = z
+  .object({
+    /**
+     * feedback: noted in the session for the agent's next turn (default);
+     * agent: delivered as a message the agent answers; off: ignored
+     */
+    mode: z.enum(["feedback", "agent", "off"]).optional(),
+    /** Emoji commands by emoji_type, e.g. { "THUMBSDOWN": "regenerate" } */
+    commands: z.record(z.string(), ReactionCommandSchema).optional(),
+  })
+  .strict()
+  .optional();
+
+/** Who may run a slash command */
+export const CommandPolicySchema = z.enum(["everyone", "admins", "nobody"]);
+
+/** Slash commands (/pause, /model, ...) */
+export const CommandsSchema = z
+  .object({
+    /** Handle the plugin's own commands (default: true); false passes them to the agent */
+    enabled: z.boolean().optional(),
+    /**
+     * Senders allowed to run "admins" commands (/clear, /pause, /resume by default).
+     * Default: the group's allowFrom in groups, else allowFrom; with neither set
+     * nobody is an admin (pairing-approved senders are not admins).
+     */
+    admins: z.array(z.union([z.string(), z.number()])).optional(),
+    /** Policy per command name without the slash; "*" sets it for agent commands */
+    policy: z.record(z.string(), CommandPolicySchema).optional(),
+  })
+  .strict()
+  .optional();
+
+/** Outbound rate limiting and retry settings */
+export const RateLimitSchema = z
+  .object({
+    /** Max outbound requests per second per app (default: 50) */
+    appQps: z.number().positive().optional(),
+    /** Max outbound requests per second per chat (default: 5) */
+    chatQps: z.number().positive().optional(),
+    /** Retries for frequency-limit errors (default: 5) */
+    maxRetries: z.number().int().min(0).optional(),
+    /** First retry delay in ms, doubled per attempt (default: 500) */
+    baseDelayMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Inbound media cache retention settings */
+export const MediaCacheSchema = z
+  .object({
+    /** Delete cached files unused for this many hours (default: 24) */
+    ttlHours: z.number().positive().optional(),
+    /** Total cache size in MB; least recently used files go first (default: 500) */
+    maxSizeMb: z.number().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Voice message transcription via a local command (e.g. whisper) */
+export const TranscriptionSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    /** Executable to run, e.g. "whisper-cli" */
+    command: z.string().optional(),
+    /** Arguments; "{file}" is replaced with the audio path (default: ["{file}"]) */
+    args: z.array(z.string()).optional(),
+    /** Kill the command after this many ms (default: 60000) */
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+/** Deduplication & watermark store settings */
+export const DedupStoreSchema = z
+  .object({
+    /** "file" survives restarts (default), "memory" is lost on restart */
+    type: DedupStoreTypeSchema.optional(),
+    /** Directory for the store files (default: ~/.openclaw/feishu) */
+    dir: z.string().optional(),
   })
   .strict()
   .optional();
@@ -101,10 +214,46 @@ export const AutoReplyConfigSchema = z
   .strict()
   .optional();
 
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Group messages that wake the agent (a batch is answered once one of them arrives) */
+export const TriggersSchema = z
+  .object({
+    /** @mentions of the bot (default: true) */
+    mention: z.boolean().optional(),
+    /** Words anywhere in the message (case-insensitive) */
+    keywords: z.array(z.string().min(1)).optional(),
+    /** Regular expressions tested against the message text (case-insensitive) */
+    patterns: z
+      .array(z.string().refine(isValidPattern, { message: "Invalid regular expression" }))
+      .optional(),
+    /** Replies to a message the bot sent */
+    replyToBot: z.boolean().optional(),
+    /** @all mentions */
+    mentionAll: z.boolean().optional(),
+    /** Messages that look like a question */
+    questions: z.boolean().optional(),
+    /** Senders (open_id, user_id or name) whose every message wakes the agent */
+    admins: z.array(z.union([z.string(), z.number()])).optional(),
+    /** Every message wakes the agent, as in a DM */
+    always: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
 /** Group-specific configuration */
 export const GroupConfigSchema = z
   .object({
     requireMention: z.boolean().optional(),
+    /** Overrides the account's trigger settings (per field) */
+    triggers: TriggersSchema,
     tools: ToolPolicySchema,
     /** Per-sender tool policy override (key: senderId/name, value: ToolPolicy) */
     toolsBySender: ToolsBySenderSchema,
@@ -129,6 +278,14 @@ export const AccountConfigSchema = z
     domain: DomainSchema.optional(),
     botName: z.string().optional(),
 
+    // Connection (account-level override)
+    connectionMode: ConnectionModeSchema.optional(),
+    webhookHost: z.string().optional(),
+    webhookPort: z.number().int().min(0).max(65535).optional(),
+    webhookPath: z.string().startsWith("/").optional(),
+    encryptKey: z.string().optional(),
+    verificationToken: z.string().optional(),
+
     // DM settings (account-level override)
     dmPolicy: DmPolicySchema.optional(),
     allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
@@ -147,6 +304,12 @@ export const AccountConfigSchema = z
     chunkMode: ChunkModeSchema.optional(),
     blockStreamingCoalesce: StreamingCoalesceSchema,
     streamingCard: StreamingCardSchema,
+    cardActions: CardActionsSchema,
+    recall: RecallSchema,
+    reactions: ReactionsSchema,
+    triggers: TriggersSchema,
+    commands: CommandsSchema,
+    rateLimit: RateLimitSchema,
 
     // Media (account-level override)
     mediaMaxMb: z.number().positive().optional(),
@@ -164,8 +327,18 @@ export const ConfigSchema = z
     appSecretFile: z.string().optional(),
     domain: DomainSchema.optional().default("feishu"),
     botName: z.string().optional(),
-    // Connection (websocket only, webhook removed)
+    // Connection
     connectionMode: ConnectionModeSchema.optional().default("websocket"),
+    /** Webhook mode: interface to listen on (default: 0.0.0.0) */
+    webhookHost: z.string().optional(),
+    /** Webhook mode: port to listen on (default: 3000) */
+    webhookPort: z.number().int().min(0).max(65535).optional(),
+    /** Webhook mode: request path for event callbacks (default: /feishu/events) */
+    webhookPath: z.string().startsWith("/").optional(),
+    /** Encrypt Key from the event subscription page (verifies signatures, decrypts events) */
+    encryptKey: z.string().optional(),
+    /** Verification Token from the event subscription page */
+    verificationToken: z.string().optional(),
 
     // Multi-account support
     accounts: z.record(z.string(), AccountConfigSchema).optional(),
@@ -191,16 +364,27 @@ export const ConfigSchema = z
     chunkMode: ChunkModeSchema.optional(),
     blockStreamingCoalesce: StreamingCoalesceSchema,
     streamingCard: StreamingCardSchema,
+    cardActions: CardActionsSchema,
+    recall: RecallSchema,
+    reactions: ReactionsSchema,
+    triggers: TriggersSchema,
+    commands: CommandsSchema,
+    rateLimit: RateLimitSchema,
 
     // Media
     mediaMaxMb: z.number().positive().optional(),
     /** Directory to save downloaded media files. Defaults to system temp directory. */
     mediaDir: z.string().optional(),
+    mediaCache: MediaCacheSchema,
+    transcription: TranscriptionSchema,
 
     // UI
     heartbeat: HeartbeatConfigSchema,
     capabilities: z.array(z.string()).optional(),
 
+    // Deduplication
+    dedupStore: DedupStoreSchema,
+
     // Debugging
     debugRawEvents: z.boolean().optional(),
 
@@ -236,6 +420,17 @@ export type StreamingCoalesce = z.infer<typeof StreamingCoalesceSchema>;
 export type StreamingCard = z.infer<typeof StreamingCardSchema>;
 export type HeartbeatConfig = z.infer<typeof HeartbeatConfigSchema>;
 export type AutoReplyConfig = z.infer<typeof AutoReplyConfigSchema>;
+export type CardActionsConfig = z.infer<typeof CardActionsSchema>;
+export type RecallConfig = z.infer<typeof RecallSchema>;
+export type ReactionsConfig = z.infer<typeof ReactionsSchema>;
+export type TriggersConfig = z.infer<typeof TriggersSchema>;
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+export type CommandsConfig = z.infer<typeof CommandsSchema>;
+export type ReactionCommand = z.infer<typeof ReactionCommandSchema>;
+export type RateLimitConfig = z.infer<typeof RateLimitSchema>;
+export type MediaCacheConfig = z.infer<typeof MediaCacheSchema>;
+export type TranscriptionConfig = z.infer<typeof TranscriptionSchema>;
+export type DedupStoreConfig = z.infer<typeof DedupStoreSchema>;
 
 // Constants
 
@@ -447,3 +642,49 @@ export function resolveAccount(
     config: mergedConfig,
   };
 }
+
+/**
+ * Flatten base config + account override into a single-account Config.
+ * The result carries the account's resolved credentials at the top level,
+ * so it can be passed to any API helper or policy check that takes a Config.
+ */
+export function mergeAccountConfig(
+  config: Config | undefined,
+  accountId?: string | null
+): Config | undefined {
+  if (!config) return undefined;
+
+  const normalizedId = normalizeAccountId(accountId);
+  const { accounts, ...base } = config;
+  const accountCfg = accounts?.[normalizedId];
+  const credentials = resolveCredentials(config, normalizedId);
+
+  // Identity fields are not settings; credentials are applied below
+  const {
+    name: _name,
+    enabled: _enabled,
+    appSecretFile: _appSecretFile,
+    groups: accountGroups,
+    ...overrides
+  } = accountCfg ?? {};
+
+  const merged: Config = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (base.groups || accountGroups) {
+    merged.groups = { ...base.groups, ...accountGroups };
+  }
+
+  if (credentials) {
+    merged.appId = credentials.appId;
+    merged.appSecret = credentials.appSecret;
+    merged.domain = credentials.domain;
+    delete merged.appSecretFile;
+  }
+
+  return merged;
+}
@@ -1,6 +1,7 @@
 /**
  * Batch processor for group messages.
  * Buffers messages per-chat and flushes when triggered, enabling human-like message processing.
+ * Thread (topic) messages are buffered per thread.
  * 
  * Supports two modes:
  * 1. Trigger mode (@bot): Must respond, immediate dispatch with typing indicator
@@ -12,6 +13,7 @@ import type { MessageReceivedEvent } from "../types/index.js";
 import type { ParsedMessage } from "../types/index.js";
 import type { Trigger, TriggerContext } from "./triggers/index.js";
 import { mentionTrigger } from "./triggers/mention.js";
+import { getConversationKey } from "./parser.js";
 import type { AutoReplyConfig } from "../config/schema.js";
 
 // Constants
@@ -61,6 +63,8 @@ export interface BatchProcessorOptions {
   botOpenId?: string;
   botName?: string;
   triggers?: Trigger[];
+  /** Triggers per chat (takes precedence over `triggers`) */
+  getTriggers?: (chatId: string) => Trigger[];
   autoReply?: AutoReplyConfig;
   onFlush: (params: FlushParams) => Promise<void>;
 }
@@ -85,9 +89,10 @@ export class BatchProcessor {
 
   processMessage(parsed: ParsedMessage, event: MessageReceivedEvent): void {
     const chatId = parsed.chatId;
+    const key = getConversationKey(parsed);
     const now = Date.now();
 
-    let state = this.chatStates.get(chatId);
+    let state = this.chatStates.get(key);
     if (!state) {
       const isStartup = now - this.connectedAt < STARTUP_WINDOW_MS;
       state = {
@@ -99,7 +104,7 @@ export class BatchProcessor {
         startupEndsAt: this.connectedAt + STARTUP_WINDOW_MS,
         firstMessageAt: now, // Track first message for auto-reply time window
       };
-      this.chatStates.set(chatId, state);
+      this.chatStates.set(key, state);
       this.log(`BatchProcessor: created state for ${chatId} (mode=${state.mode})`);
     }
 
@@ -108,7 +113,7 @@ export class BatchProcessor {
     state.lastMessageAt = now;
 
     const ctx: TriggerContext = { parsed, event };
-    const triggered = this.triggers.some((t) => t.check(ctx));
+    const triggered = this.triggersFor(chatId).some((t) => t.check(ctx));
 
     if (triggered && !state.hasTrigger) {
       // First trigger in this batch - MUST respond
@@ -141,6 +146,21 @@ export class BatchProcessor {
     }
   }
 
+  /**
+   * Let the chat's triggers load what they need to check a message
+   * (call before processMessage). Failed lookups count as no match.
+   */
+  async prepareTriggers(parsed: ParsedMessage, event: MessageReceivedEvent): Promise<void> {
+    const ctx: TriggerContext = { parsed, event };
+    await Promise.all(
+      this.triggersFor(parsed.chatId).map((t) => t.prepare?.(ctx).catch(() => undefined))
+    );
+  }
+
+  private triggersFor(chatId: string): Trigger[] {
+    return this.options.getTriggers?.(chatId) ?? this.triggers;
+  }
+
   private scheduleStartupFlush(state: ChatBatchState): void {
     // Don't set new debounce timer during startup, just wait for startup window to end
     if (state.debounceTimer) return;
@@ -306,13 +326,49 @@ export class BatchProcessor {
     }
   }
 
-  async flush(chatId: string): Promise<void> {
-    const state = this.chatStates.get(chatId);
+  /** Flush a chat's batch (`key` is the chat ID, or the thread key from getConversationKey) */
+  async flush(key: string): Promise<void> {
+    const state = this.chatStates.get(key);
     if (state) {
       await this.flushIfTriggered(state);
     }
   }
 
+  /**
+   * Drop a buffered message (e.g. recalled by its sender).
+   * If it was the trigger, the latest remaining triggering message takes over;
+   * without one the pending flush is cancelled.
+   *
+   * @returns true if the message was buffered
+   */
+  removeMessage(messageId: string): boolean {
+    for (const state of this.chatStates.values()) {
+      const index = state.buffer.findIndex((m) => m.parsed.messageId === messageId);
+      if (index === -1) continue;
+
+      const [removed] = state.buffer.splice(index, 1);
+      if (removed && state.triggerMessage === removed) {
+        const triggers = this.triggersFor(state.chatId);
+        state.triggerMessage = [...state.buffer]
+          .reverse()
+          .find((m) => triggers.some((t) => t.check({ parsed: m.parsed, event: m.event })));
+        if (!state.triggerMessage) {
+          state.hasTrigger = false;
+          state.firstTriggerAt = undefined;
+          this.clearDebounceTimer(state);
+          this.clearMaxWaitTimer(state);
+        }
+      }
+      if (state.buffer.length === 0) {
+        this.clearAutoReplyTimer(state);
+      }
+
+      this.log(`BatchProcessor: removed recalled message ${messageId} from ${state.chatId}`);
+      return true;
+    }
+    return false;
+  }
+
   dispose(): void {
     for (const state of this.chatStates.values()) {
       this.clearDebounceTimer(state);
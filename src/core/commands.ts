@@ -0,0 +1,167 @@
+/**
+ * Slash commands in Feishu chats.
+ * A message starting with `/name` (after an optional @bot mention) is a
+ * command. The plugin runs its own commands (/feishu, /clear, /pause,
+ * /resume) without the agent; every other command goes to the agent, which
+ * only honors it if the sender is authorized by `commands.policy`.
+ */
+
+import type { CommandPolicy, Config } from "../config/schema.js";
+import type { ParsedMessage } from "../types/index.js";
+import { matchAllowlist, resolveGroupConfig } from "./policy.js";
+
+// Constants
+
+/** Leading bot mention as rendered by the parser, or an unresolved mention key */
+const LEADING_MENTION_PATTERN = /^\s*(?:<at user_id="self">[^<]*<\/at>|@_user_\d+)\s*/;
+const COMMAND_PATTERN = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i;
+
+/** Key in `commands.policy` for commands handled by the agent */
+const AGENT_COMMANDS_KEY = "*";
+
+// Types
+
+export interface ParsedCommand {
+  /** Lowercase name without the slash */
+  name: string;
+  /** Text after the name (trimmed) */
+  args: string;
+  /** The command without the leading mention, e.g. "/model gpt-4o" */
+  text: string;
+}
+
+export type LocalCommandName = "feishu" | "clear" | "pause" | "resume";
+
+export interface LocalCommand {
+  description: string;
+  defaultPolicy: CommandPolicy;
+}
+
+// Local Commands
+
+export const LOCAL_COMMANDS: Record<LocalCommandName, LocalCommand> = {
+  feishu: { description: "Show the bot's status in this chat", defaultPolicy: "everyone" },
+  clear: { description: "Clear the pending chat history", defaultPolicy: "admins" },
+  pause: { description: "Stop answering in this chat", defaultPolicy: "admins" },
+  resume: { description: "Answer in this chat again", defaultPolicy: "admins" },
+};
+
+/**
+ * Whether a command is one of the plugin's own.
+ * All commands go to the agent when `commands.enabled` is false.
+ */
+export function isLocalCommand(config: Config | undefined, name: string): name is LocalCommandName {
+  return config?.commands?.enabled !== false && Object.hasOwn(LOCAL_COMMANDS, name);
+}
+
+// Parsing
+
+/**
+ * Parse a leading slash command from message content, ignoring a leading
+ * @bot mention. Returns null if the message is not a command.
+ */
+export function parseCommand(content: string): ParsedCommand | null {
+  const text = content.replace(LEADING_MENTION_PATTERN, "").trim();
+  const match = COMMAND_PATTERN.exec(text);
+  if (!match) return null;
+  return { name: (match[1] ?? "").toLowerCase(), args: (match[2] ?? "").trim(), text };
+}
+
+// Authorization
+
+/**
+ * Policy for a command: `commands.policy[name]`, else the local command's
+ * default, else `commands.policy["*"]` (default: everyone).
+ */
+export function resolveCommandPolicy(config: Config | undefined, name: string): CommandPolicy {
+  const policy = config?.commands?.policy;
+  const configured = policy?.[name];
+  if (configured) return configured;
+  if (isLocalCommand(config, name)) return LOCAL_COMMANDS[name].defaultPolicy;
+  return policy?.[AGENT_COMMANDS_KEY] ?? "everyone";
+}
+
+/**
+ * Admins of a chat: `commands.admins`, else in groups the group's
+ * `allowFrom` (`groups.<chat_id>`, then `groups["*"]`), else `allowFrom`.
+ * Empty when none is set: nobody may run "admins" commands.
+ */
+function resolveCommandAdmins(
+  config: Config | undefined,
+  parsed: Pick<ParsedMessage, "chatId" | "chatType">
+): (string | number)[] {
+  if (config?.commands?.admins) return config.commands.admins;
+  if (config && parsed.chatType === "group") {
+    const groupAllowFrom =
+      resolveGroupConfig(config, parsed.chatId)?.allowFrom ??
+      resolveGroupConfig(config, "*")?.allowFrom;
+    if (groupAllowFrom?.length) return groupAllowFrom;
+  }
+  return config?.allowFrom ?? [];
+}
+
+/**
+ * Check if the sender may run a command.
+ */
+export function isCommandAuthorized(
+  config: Config | undefined,
+  name: string,
+  parsed: Pick<ParsedMessage, "chatId" | "chatType" | "senderId" | "senderOpenId" | "senderName">
+): boolean {
+  const policy = resolveCommandPolicy(config, name);
+  if (policy === "everyone") return true;
+  if (policy === "nobody") return false;
+
+  const admins = resolveCommandAdmins(config, parsed);
+  return (
+    matchAllowlist(admins, parsed.senderOpenId, parsed.senderName).allowed ||
+    (parsed.senderId !== parsed.senderOpenId && matchAllowlist(admins, parsed.senderId).allowed)
+  );
+}
+
+// Local Command Execution
+
+export interface LocalCommandContext {
+  accountId: string;
+  parsed: ParsedMessage;
+  /** Chats where the bot is paused */
+  pausedChats: Set<string>;
+  chatHistories?: Map<string, { length: number }>;
+  /** History key of the message's conversation */
+  historyKey: string;
+}
+
+/**
+ * Run a local command and return the reply text.
+ */
+export function runLocalCommand(name: LocalCommandName, ctx: LocalCommandContext): string {
+  const { parsed, pausedChats, chatHistories, historyKey } = ctx;
+
+  switch (name) {
+    case "clear": {
+      const count = chatHistories?.get(historyKey)?.length ?? 0;
+      chatHistories?.delete(historyKey);
+      return `Cleared ${count} pending ${count === 1 ? "message" : "messages"}.`;
+    }
+    case "pause":
+      pausedChats.add(parsed.chatId);
+      return "Paused: I will not answer in this chat until /resume.";
+    case "resume":
+      pausedChats.delete(parsed.chatId);
+      return "Resumed: I will answer in this chat again.";
+    case "feishu": {
+      const pending = chatHistories?.get(historyKey)?.length ?? 0;
+      const commands = Object.entries(LOCAL_COMMANDS).map(
+        ([command, info]) => `/${command} - ${info.description}`
+      );
+      return [
+        `Account: ${ctx.accountId}`,
+        `Chat: ${parsed.chatId} (${parsed.chatType})`,
+        `Status: ${pausedChats.has(parsed.chatId) ? "paused" : "active"}`,
+        `Pending history: ${pending}`,
+        "",
+        ...commands,
+      ].join("\n");
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Deduplication & watermark stores.
+ * Remember processed event IDs and the newest message time per chat so
+ * Feishu re-pushes are filtered, optionally across process restarts.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { Config } from "../config/schema.js";
+
+// Constants
+
+const FILE_FORMAT_VERSION = 1;
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+// Types
+
+/** Storage backend for processed events and per-chat watermarks */
+export interface DedupStore {
+  /** Whether the state survives a process restart */
+  readonly persistent: boolean;
+  hasEvent(eventId: string): boolean;
+  markEvent(eventId: string, timestamp: number): void;
+  /** Newest processed message create_time for a chat (0 if unknown) */
+  getWatermark(chatId: string): number;
+  setWatermark(chatId: string, createTime: number): void;
+  /** Forget events processed before the cutoff timestamp */
+  prune(cutoff: number): void;
+  /** Persist pending changes and release resources */
+  close(): Promise<void>;
+}
+
+interface DedupFileData {
+  version: number;
+  events: Record<string, number>;
+  watermarks: Record<string, number>;
+}
+
+// Memory Store
+
+/** In-memory store (state is lost on restart) */
+export class MemoryDedupStore implements DedupStore {
+  readonly persistent: boolean = false;
+  protected events = new Map<string, number>();
+  protected watermarks = new Map<string, number>();
+
+  hasEvent(eventId: string): boolean {
+    return this.events.has(eventId);
+  }
+
+  markEvent(eventId: string, timestamp: number): void {
+    this.events.set(eventId, timestamp);
+  }
+
+  getWatermark(chatId: string): number {
+    return this.watermarks.get(chatId) ?? 0;
+  }
+
+  setWatermark(chatId: string, createTime: number): void {
+    if (createTime > this.getWatermark(chatId)) this.watermarks.set(chatId, createTime);
+  }
+
+  prune(cutoff: number): void {
+    for (const [id, ts] of this.events) if (ts < cutoff) this.events.delete(id);
+  }
+
+  async close(): Promise<void> {
+    this.events.clear();
+    this.watermarks.clear();
+  }
+}
+
+// File Store
+
+/**
+ * JSON file-backed store.
+ * Loaded synchronously on construction; changes are written atomically
+ * (temp file + rename) after a short debounce and on close.
+ */
+export class FileDedupStore extends MemoryDedupStore {
+  override readonly persistent = true;
+  private readonly filePath: string;
+  private readonly flushDelayMs: number;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(filePath: string, options: { flushDelayMs?: number } = {}) {
+    super();
+    this.filePath = filePath;
+    this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+    this.load();
+  }
+
+  override markEvent(eventId: string, timestamp: number): void {
+    super.markEvent(eventId, timestamp);
+    this.scheduleFlush();
+  }
+
+  override setWatermark(chatId: string, createTime: number): void {
+    const before = this.getWatermark(chatId);
+    super.setWatermark(chatId, createTime);
+    if (this.getWatermark(chatId) !== before) this.scheduleFlush();
+  }
+
+  override prune(cutoff: number): void {
+    const before = this.events.size;
+    super.prune(cutoff);
+    if (this.events.size !== before) this.scheduleFlush();
+  }
+
+  /** Write the current state to disk now */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const data: DedupFileData = {
+      version: FILE_FORMAT_VERSION,
+      events: Object.fromEntries(this.events),
+      watermarks: Object.fromEntries(this.watermarks),
+    };
+    const write = async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+      await fs.promises.rename(tmpPath, this.filePath);
+    };
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  override async close(): Promise<void> {
+    if (this.closed) return this.writing;
+    this.closed = true;
+    await this.flush();
+    await super.close();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || this.closed) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(() => undefined);
+    }, this.flushDelayMs);
+    this.flushTimer.unref?.();
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf-8");
+    } catch {
+      return; // No previous state
+    }
+    try {
+      const data = JSON.parse(raw) as Partial<DedupFileData>;
+      for (const [id, ts] of Object.entries(data.events ?? {})) {
+        if (typeof ts === "number") this.events.set(id, ts);
+      }
+      for (const [chatId, ts] of Object.entries(data.watermarks ?? {})) {
+        if (typeof ts === "number") this.watermarks.set(chatId, ts);
+      }
+    } catch {
+      // Corrupt file: start fresh, it is rewritten on the next flush
+    }
+  }
+}
+
+// Factory
+
+function resolveStoreDir(dir?: string): string {
+  if (dir) return dir.startsWith("~") ? dir.replace("~", os.homedir()) : dir;
+  return path.join(os.homedir(), ".openclaw", "feishu");
+}
+
+/**
+ * Create the dedup store configured for an account.
+ * Defaults to a file store at ~/.openclaw/feishu/dedup-<accountId>.json.
+ */
+export function createDedupStore(feishuCfg: Config | undefined, accountId: string): DedupStore {
+  const storeCfg = feishuCfg?.dedupStore;
+  if (storeCfg?.type === "memory") return new MemoryDedupStore();
+  const fileName = `dedup-${accountId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+  return new FileDedupStore(path.join(resolveStoreDir(storeCfg?.dir), fileName));
+}
@@ -1,78 +1,47 @@
-/** WebSocket gateway for real-time Feishu events with auto-reconnect */
+/** Gateway for real-time Feishu events (WebSocket with auto-reconnect, or webhook) */
 
+import type http from "node:http";
 import * as Lark from "@larksuiteoapi/node-sdk";
 import type { OpenClawConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
+import { mergeAccountConfig, normalizeAccountId } from "../config/schema.js";
 import type { Config } from "../config/schema.js";
-import type { MessageReceivedEvent, BotAddedEvent, BotRemovedEvent } from "../types/index.js";
+import type {
+  MessageReceivedEvent,
+  BotAddedEvent,
+  BotRemovedEvent,
+  CardActionEvent,
+  MessageUpdatedEvent,
+  MessageRecalledEvent,
+  MessageReactionEvent,
+} from "../types/index.js";
 import { createWsClient, probeConnection } from "../api/client.js";
-import { handleMessage, createBatchFlushHandler } from "./handler.js";
+import {
+  handleMessage,
+  handleMessageUpdate,
+  handleMessageRecall,
+  cancelRecalledMessage,
+  handleReaction,
+  handleCardAction,
+  createBatchFlushHandler,
+  lookupBotMessage,
+} from "./handler.js";
 import { BatchProcessor } from "./batch-processor.js";
+import { startWebhookServer } from "./webhook.js";
+import type { EventHandlerMap } from "./webhook.js";
+import { MemoryDedupStore, createDedupStore } from "./dedup-store.js";
+import type { DedupStore } from "./dedup-store.js";
+import { ReplyTracker } from "./reply-tracker.js";
+import { resolveMediaCacheOptions, resolveMediaDir } from "./media-cache.js";
+import type { MediaCacheOptions } from "./media-cache.js";
+import { createTriggerResolver } from "./triggers/config.js";
 
 const RECONNECT_BASE_MS = 1000, RECONNECT_MAX_MS = 60000, RECONNECT_MAX_ATTEMPTS = 20;
+const WEBHOOK_DEFAULT_HOST = "0.0.0.0", WEBHOOK_DEFAULT_PORT = 3000, WEBHOOK_DEFAULT_PATH = "/feishu/events";
 const DEDUP_WINDOW_MS = 24 * 60 * 60 * 1000, DEDUP_CLEANUP_MS = 60 * 60 * 1000;
 
-const chatWatermarks = new Map<string, number>();
-const processedEvents = new Map<string, number>();
-let dedupCleanupTimer: ReturnType<typeof setInterval> | null = null;
-
-function isStaleMessage(chatId: string, createTime: number): boolean {
-  return createTime <= (chatWatermarks.get(chatId) ?? 0);
-}
-
-function updateWatermark(chatId: string, createTime: number): void {
-  const cur = chatWatermarks.get(chatId) ?? 0;
-  if (createTime > cur) chatWatermarks.set(chatId, createTime);
-}
-
-function isDuplicateEvent(eventId: string): boolean {
-  if (processedEvents.has(eventId)) return true;
-  processedEvents.set(eventId, Date.now());
-  return false;
-}
-
-function startDedupCleanup(): void {
-  if (dedupCleanupTimer) return;
-  dedupCleanupTimer = setInterval(() => {
-    const cutoff = Date.now() - DEDUP_WINDOW_MS;
-    for (const [id, ts] of processedEvents) if (ts < cutoff) processedEvents.delete(id);
-  }, DEDUP_CLEANUP_MS);
-}
-
-function stopDedupCleanup(): void {
-  if (dedupCleanupTimer) { clearInterval(dedupCleanupTimer); dedupCleanupTimer = null; }
-  processedEvents.clear();
-}
-
 // Per-Chat Message Queue (Serial Processing)
 interface ChatQueue { messages: { handler: () => Promise<void> }[]; processing: boolean }
-const chatQueues = new Map<string, ChatQueue>();
-type Logger = { log: (msg: string) => void; error: (msg: string) => void };
-
-function enqueueMessage(chatId: string, _event: MessageReceivedEvent, handler: () => Promise<void>, logger: Logger): void {
-  let q = chatQueues.get(chatId);
-  if (!q) { q = { messages: [], processing: false }; chatQueues.set(chatId, q); }
-  q.messages.push({ handler });
-  if (!q.processing) processQueue(chatId, logger);
-}
-
-async function processQueue(chatId: string, logger: Logger): Promise<void> {
-  const q = chatQueues.get(chatId);
-  if (!q || q.processing) return;
-  q.processing = true;
-  while (q.messages.length) {
-    const item = q.messages.shift();
-    if (item) try { await item.handler(); } catch (e) { logger.error(`Gateway queue error: ${e}`); }
-  }
-  q.processing = false;
-  if (!q.messages.length) chatQueues.delete(chatId);
-}
-
-/**
- * Clear all chat queues (for shutdown).
- */
-function clearAllQueues(): void {
-  chatQueues.clear();
-}
+interface Logger { log: (msg: string) => void; error: (msg: string) => void }
 
 // Types
 
@@ -80,43 +49,158 @@ export interface GatewayOptions {
   cfg: OpenClawConfig;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
+  /** Account to connect (defaults to the default account) */
+  accountId?: string;
+  /** Custom dedup/watermark store (defaults to the one configured by `dedupStore`) */
+  dedupStore?: DedupStore;
 }
 
+/** Isolated state of one account's gateway instance */
 export interface GatewayState {
+  accountId: string;
   botOpenId: string | undefined;
   botName: string | undefined;
   wsClient: Lark.WSClient | null;
+  webhookServer: http.Server | null;
+  /** Interface and port of the webhook server, reserved while the account runs */
+  webhookAddress: { host: string; port: number } | null;
+  /** Media directory and cache settings, reserved while the account runs */
+  mediaCache: { dir: string; options: MediaCacheOptions } | null;
   chatHistories: Map<string, HistoryEntry[]>;
+  /** Bot replies per answered message, for edits and recalls */
+  replyTracker: ReplyTracker;
+  /** Chats where /pause stopped the bot (carried over when the account's gateway restarts) */
+  pausedChats: Set<string>;
+  /** Conversations whose history was backfilled from Feishu after starting */
+  backfilledChats: Set<string>;
   batchProcessor: BatchProcessor | null;
   isReconnecting: boolean;
   reconnectAttempts: number;
   shouldStop: boolean;
+  dedupStore: DedupStore;
+  chatQueues: Map<string, ChatQueue>;
+  dedupCleanupTimer: ReturnType<typeof setInterval> | null;
+}
+
+// Gateway State (one entry per account)
+
+const gateways = new Map<string, GatewayState>();
+
+function createGatewayState(accountId: string): GatewayState {
+  return {
+    accountId,
+    botName: undefined,
+    botOpenId: undefined,
+    wsClient: null,
+    webhookServer: null,
+    webhookAddress: null,
+    mediaCache: null,
+    chatHistories: new Map(),
+    replyTracker: new ReplyTracker(),
+    pausedChats: new Set(),
+    backfilledChats: new Set(),
+    batchProcessor: null,
+    isReconnecting: false,
+    reconnectAttempts: 0,
+    shouldStop: false,
+    dedupStore: new MemoryDedupStore(),
+    chatQueues: new Map(),
+    dedupCleanupTimer: null,
+  };
+}
+
+function getOrCreateState(accountId?: string | null): GatewayState {
+  const id = normalizeAccountId(accountId);
+  let state = gateways.get(id);
+  if (!state) { state = createGatewayState(id); gateways.set(id, state); }
+  return state;
 }
 
-// Gateway State
-
-const state: GatewayState = {
-  botName: undefined,
-  botOpenId: undefined,
-  wsClient: null,
-  chatHistories: new Map(),
-  batchProcessor: null,
-  isReconnecting: false,
-  reconnectAttempts: 0,
-  shouldStop: false,
-};
-
-export function getBotName(): string | undefined {
-  return state.botName;
+export function getBotName(accountId?: string | null): string | undefined {
+  return gateways.get(normalizeAccountId(accountId))?.botName;
 }
 
-export function setBotInfo(openId: string | undefined, name: string | undefined): void {
+export function setBotInfo(openId: string | undefined, name: string | undefined, accountId?: string | null): void {
+  const state = getOrCreateState(accountId);
   state.botOpenId = openId;
   state.botName = name;
 }
 
-export function getBotOpenId(): string | undefined {
-  return state.botOpenId;
+export function getBotOpenId(accountId?: string | null): string | undefined {
+  return gateways.get(normalizeAccountId(accountId))?.botOpenId;
+}
+
+// Deduplication & Watermarks
+
+function isStaleMessage(state: GatewayState, chatId: string, createTime: number): boolean {
+  return createTime <= state.dedupStore.getWatermark(chatId);
+}
+
+function updateWatermark(state: GatewayState, chatId: string, createTime: number): void {
+  state.dedupStore.setWatermark(chatId, createTime);
+}
+
+function isDuplicateEvent(state: GatewayState, eventId: string): boolean {
+  if (state.dedupStore.hasEvent(eventId)) return true;
+  state.dedupStore.markEvent(eventId, Date.now());
+  return false;
+}
+
+function startDedupCleanup(state: GatewayState): void {
+  if (state.dedupCleanupTimer) return;
+  state.dedupStore.prune(Date.now() - DEDUP_WINDOW_MS);
+  state.dedupCleanupTimer = setInterval(() => {
+    state.dedupStore.prune(Date.now() - DEDUP_WINDOW_MS);
+  }, DEDUP_CLEANUP_MS);
+}
+
+function stopDedupCleanup(state: GatewayState): void {
+  if (state.dedupCleanupTimer) { clearInterval(state.dedupCleanupTimer); state.dedupCleanupTimer = null; }
+  state.dedupStore.close().catch(() => undefined);
+}
+
+// Per-Chat Queue Processing
+
+function enqueueMessage(state: GatewayState, chatId: string, handler: () => Promise<void>, logger: Logger): void {
+  let q = state.chatQueues.get(chatId);
+  if (!q) { q = { messages: [], processing: false }; state.chatQueues.set(chatId, q); }
+  q.messages.push({ handler });
+  if (!q.processing) processQueue(state, chatId, logger);
+}
+
+async function processQueue(state: GatewayState, chatId: string, logger: Logger): Promise<void> {
+  const q = state.chatQueues.get(chatId);
+  if (!q || q.processing) return;
+  q.processing = true;
+  while (q.messages.length) {
+    const item = q.messages.shift();
+    if (item) try { await item.handler(); } catch (e) { logger.error(`Gateway queue error: ${e}`); }
+  }
+  q.processing = false;
+  if (!q.messages.length) state.chatQueues.delete(chatId);
+}
+
+/**
+ * Release timers, queues and the batch processor of a gateway instance.
+ */
+function teardownState(state: GatewayState): void {
+  state.shouldStop = true;
+  if (state.batchProcessor) {
+    state.batchProcessor.dispose();
+    state.batchProcessor = null;
+  }
+  state.wsClient = null;
+  if (state.webhookServer) {
+    state.webhookServer.close();
+    state.webhookServer = null;
+  }
+  state.webhookAddress = null;
+  state.mediaCache = null;
+  state.isReconnecting = false;
+  state.reconnectAttempts = 0;
+  stopDedupCleanup(state);
+  state.chatQueues.clear();
+  state.replyTracker.clear();
 }
 
 // Reconnection Helpers
@@ -130,29 +214,58 @@ function calculateBackoffDelay(attempt: number): number {
   return Math.min(delay, RECONNECT_MAX_MS);
 }
 
+/** Keep the gateway running until shouldStop is set. */
+function waitForStop(state: GatewayState): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const checkInterval = setInterval(() => {
+      if (state.shouldStop) {
+        clearInterval(checkInterval);
+        resolve();
+      }
+    }, 1000);
+  });
+}
+
 // Gateway Lifecycle
 
 export async function startGateway(options: GatewayOptions): Promise<void> {
   const { cfg, runtime, abortSignal } = options;
-  const feishuCfg = cfg.channels?.feishu as Config | undefined;
+  const accountId = normalizeAccountId(options.accountId);
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
   const log = (msg: string) => runtime?.log?.(msg);
   const error = (msg: string) => runtime?.error?.(msg);
 
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const pkg = require("../../package.json") as { version: string };
-  log(`🚀 @xzq-xu/feishu plugin v${pkg.version} starting...`);
+  log(`🚀 @xzq-xu/feishu plugin v${pkg.version} starting (account=${accountId})...`);
 
   if (!feishuCfg) {
     throw new Error("Feishu not configured");
   }
 
-  // Reset state
-  state.shouldStop = false;
-  state.isReconnecting = false;
-  state.reconnectAttempts = 0;
+  // Fresh isolated state per start; a previous instance of this account is stopped
+  const previous = gateways.get(accountId);
+  if (previous) {
+    teardownState(previous);
+    // Let the previous store finish writing before the new one loads it
+    await previous.dedupStore.close().catch(() => undefined);
+  }
+  const mediaCache = {
+    dir: resolveMediaDir(feishuCfg),
+    options: resolveMediaCacheOptions(feishuCfg),
+  };
+  checkMediaCacheConflict(accountId, mediaCache);
+  const state = createGatewayState(accountId);
+  state.mediaCache = mediaCache;
+  state.botOpenId = previous?.botOpenId;
+  state.botName = previous?.botName;
+  // /pause outlives the restart (e.g. after a config reload)
+  if (previous) state.pausedChats = previous.pausedChats;
+  state.dedupStore = options.dedupStore ?? createDedupStore(feishuCfg, accountId);
+  gateways.set(accountId, state);
 
   try {
-    const probeResult = await probeConnection(feishuCfg);
+    const probeResult = await probeConnection(feishuCfg, accountId);
     if (probeResult.ok && probeResult.botOpenId) {
       state.botOpenId = probeResult.botOpenId;
       state.botName = probeResult.botName;
@@ -166,8 +279,11 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
 
   const onFlush = createBatchFlushHandler({
     cfg,
+    accountId,
     runtime,
     chatHistories: state.chatHistories,
+    replyTracker: state.replyTracker,
+    pausedChats: state.pausedChats,
   });
 
   state.batchProcessor = new BatchProcessor({
@@ -176,20 +292,50 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     chatHistories: state.chatHistories,
     botOpenId: state.botOpenId,
     botName: state.botName,
+    getTriggers: createTriggerResolver(feishuCfg, {
+      isBotMessage: (messageId) => state.replyTracker.findByReply(messageId) !== undefined,
+      // Answers sent before a restart are not tracked; ask Feishu who sent them
+      lookupBotMessage: (messageId) => lookupBotMessage(feishuCfg, messageId),
+    }),
     autoReply: feishuCfg?.autoReply,
     onFlush,
   });
 
-  // Create event dispatcher (shared across reconnections)
-  const eventDispatcher = new Lark.EventDispatcher({});
-
   // Start dedup cleanup timer
-  startDedupCleanup();
+  startDedupCleanup(state);
 
-  // Max age for messages (5 minutes) - skip messages older than this
+  // Max age for messages (5 minutes) - skip messages older than this (memory store only)
   const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
 
-  eventDispatcher.register({
+  // Reaction events carry no chat ID: queue them with the chat of the answered message
+  const onReaction = (event: MessageReactionEvent, action: "created" | "deleted") => {
+    if (event.event_id && isDuplicateEvent(state, event.event_id)) {
+      log(`Gateway: skipping duplicate reaction event ${event.event_id}`);
+      return;
+    }
+
+    const chatId = state.replyTracker.findByReply(event.message_id)?.parsed.chatId;
+    enqueueMessage(
+      state,
+      chatId ?? event.message_id,
+      async () => {
+        await handleReaction({
+          cfg,
+          accountId,
+          event,
+          action,
+          runtime,
+          chatHistories: state.chatHistories,
+          replyTracker: state.replyTracker,
+          pausedChats: state.pausedChats,
+        });
+      },
+      { log, error }
+    );
+  };
+
+  // Event handlers (shared by the WebSocket dispatcher and the webhook server)
+  const handlers: EventHandlerMap = {
     "im.message.receive_v1": async (data: unknown) => {
       // IMPORTANT: Feishu requires event handlers to complete within 3 seconds,
       // otherwise it triggers a retry/re-push mechanism. We must return quickly
@@ -200,7 +346,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
 
       // Deduplication: skip if event already processed
       const dedupKey = event.event_id ?? event.message?.message_id;
-      if (dedupKey && isDuplicateEvent(dedupKey)) {
+      if (dedupKey && isDuplicateEvent(state, dedupKey)) {
         log(`Gateway: skipping duplicate event ${dedupKey}`);
         return; // Return quickly to ACK
       }
@@ -210,13 +356,14 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
 
       // Watermark check: skip messages older than the last processed message for this chat
       // This handles reconnection replays where Feishu re-sends unacknowledged messages
-      if (chatId && messageCreateTime && isStaleMessage(chatId, messageCreateTime)) {
+      if (chatId && messageCreateTime && isStaleMessage(state, chatId, messageCreateTime)) {
         log(`Gateway: skipping stale message (watermark filter, chat=${chatId})`);
         return; // Return quickly to ACK
       }
 
-      // Also skip very old messages as a fallback (e.g., if watermark is not set yet)
-      if (messageCreateTime) {
+      // Also skip very old messages as a fallback when processed events are not persisted
+      // (a persistent store still handles legitimate messages delayed by an outage)
+      if (messageCreateTime && !state.dedupStore.persistent) {
         const messageAge = Date.now() - messageCreateTime;
         if (messageAge > MAX_MESSAGE_AGE_MS) {
           log(`Gateway: skipping stale message (age=${Math.round(messageAge / 1000)}s, max=${MAX_MESSAGE_AGE_MS / 1000}s)`);
@@ -226,7 +373,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
 
       // Update watermark BEFORE async processing to prevent duplicate handling
       if (chatId && messageCreateTime) {
-        updateWatermark(chatId, messageCreateTime);
+        updateWatermark(state, chatId, messageCreateTime);
       }
 
       // Enqueue message for serial processing within this chat
@@ -234,23 +381,123 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
       // while messages in the same chat are processed one at a time (no race conditions)
       const queueChatId = chatId ?? "unknown";
       enqueueMessage(
+        state,
         queueChatId,
-        event,
         async () => {
           await handleMessage({
             cfg,
+            accountId,
             event,
             botOpenId: state.botOpenId,
             botName: state.botName,
             runtime,
             chatHistories: state.chatHistories,
+            replyTracker: state.replyTracker,
             batchProcessor: state.batchProcessor ?? undefined,
+            pausedChats: state.pausedChats,
+            backfilledChats: state.backfilledChats,
+          });
+        },
+        { log, error }
+      );
+    },
+
+    "card.action.trigger": async (data: unknown) => {
+      // Card callbacks have the same 3-second limit: ACK now, process in the chat queue
+      const event = data as CardActionEvent;
+
+      if (event.event_id && isDuplicateEvent(state, event.event_id)) {
+        log(`Gateway: skipping duplicate card action ${event.event_id}`);
+        return;
+      }
+
+      enqueueMessage(
+        state,
+        event.context?.open_chat_id ?? "unknown",
+        async () => {
+          await handleCardAction({
+            cfg,
+            accountId,
+            event,
+            runtime,
+            chatHistories: state.chatHistories,
+            replyTracker: state.replyTracker,
+            pausedChats: state.pausedChats,
+          });
+        },
+        { log, error }
+      );
+    },
+
+    "im.message.updated_v1": async (data: unknown) => {
+      // Queued behind the chat's other messages so an edit never overtakes its original
+      const event = data as MessageUpdatedEvent;
+
+      if (event.event_id && isDuplicateEvent(state, event.event_id)) {
+        log(`Gateway: skipping duplicate edit event ${event.event_id}`);
+        return;
+      }
+
+      enqueueMessage(
+        state,
+        event.chat_id ?? "unknown",
+        async () => {
+          await handleMessageUpdate({
+            cfg,
+            accountId,
+            event,
+            botOpenId: state.botOpenId,
+            runtime,
+            chatHistories: state.chatHistories,
+            replyTracker: state.replyTracker,
+            pausedChats: state.pausedChats,
+          });
+        },
+        { log, error }
+      );
+    },
+
+    "im.message.recalled_v1": async (data: unknown) => {
+      const event = data as MessageRecalledEvent;
+
+      if (event.event_id && isDuplicateEvent(state, event.event_id)) {
+        log(`Gateway: skipping duplicate recall event ${event.event_id}`);
+        return;
+      }
+
+      // Purge and abort now; replies are recalled once a running dispatch has ended
+      cancelRecalledMessage({
+        event,
+        runtime,
+        chatHistories: state.chatHistories,
+        batchProcessor: state.batchProcessor ?? undefined,
+        replyTracker: state.replyTracker,
+      });
+
+      enqueueMessage(
+        state,
+        event.chat_id ?? "unknown",
+        async () => {
+          await handleMessageRecall({
+            cfg,
+            accountId,
+            event,
+            runtime,
+            replyTracker: state.replyTracker,
           });
         },
         { log, error }
       );
     },
 
+    "im.message.reaction.created_v1": async (data: unknown) => {
+      onReaction(data as MessageReactionEvent, "created");
+    },
+
+    "im.message.reaction.deleted_v1": async (data: unknown) => {
+      onReaction(data as MessageReactionEvent, "deleted");
+    },
+
     "im.chat.member.bot.added_v1": async (data: unknown) => {
       const event = data as BotAddedEvent;
       log(`Gateway: bot added to chat ${event.chat_id}`);
@@ -259,23 +506,19 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     "im.chat.member.bot.deleted_v1": async (data: unknown) => {
       const event = data as BotRemovedEvent;
       log(`Gateway: bot removed from chat ${event.chat_id}`);
-      if (state.chatHistories.has(event.chat_id)) {
-        state.chatHistories.delete(event.chat_id);
+      // Drop the chat's history along with its threads' histories
+      for (const key of state.chatHistories.keys()) {
+        if (key === event.chat_id || key.startsWith(`${event.chat_id}:thread:`)) {
+          state.chatHistories.delete(key);
+        }
       }
     },
-  });
+  };
 
   // Handle abort signal
   const onAbort = () => {
     log("Gateway: abort signal received, stopping...");
-    state.shouldStop = true;
-    if (state.batchProcessor) {
-      state.batchProcessor.dispose();
-      state.batchProcessor = null;
-    }
-    if (state.wsClient) {
-      state.wsClient = null;
-    }
+    teardownState(state);
   };
 
   if (abortSignal?.aborted) {
@@ -285,17 +528,105 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
 
   abortSignal?.addEventListener("abort", onAbort, { once: true });
 
+  if (feishuCfg.connectionMode === "webhook") {
+    return startWebhook(state, feishuCfg, handlers, { log, error });
+  }
+
+  // Create event dispatcher (shared across reconnections)
+  const eventDispatcher = new Lark.EventDispatcher({});
+  eventDispatcher.register(handlers);
+
   // Start WebSocket with reconnection loop
-  return startWithReconnect(feishuCfg, eventDispatcher, { log, error });
+  return startWithReconnect(state, feishuCfg, eventDispatcher, { log, error });
+}
+
+/**
+ * Accounts sharing a media directory share one cache, so they must agree on
+ * its expiry and size settings.
+ */
+function checkMediaCacheConflict(
+  accountId: string,
+  mediaCache: { dir: string; options: MediaCacheOptions }
+): void {
+  const conflict = [...gateways.values()].find(
+    (other) =>
+      other.accountId !== accountId &&
+      other.mediaCache?.dir === mediaCache.dir &&
+      (other.mediaCache.options.ttlMs !== mediaCache.options.ttlMs ||
+        other.mediaCache.options.maxBytes !== mediaCache.options.maxBytes)
+  );
+  if (conflict) {
+    throw new Error(
+      `Media directory ${mediaCache.dir} is already used by account "${conflict.accountId}" with different mediaCache settings; set a different mediaDir or the same mediaCache for account "${accountId}"`
+    );
+  }
+}
+
+function isWildcardHost(host: string): boolean {
+  return host === "0.0.0.0" || host === "::" || host === "";
+}
+
+/**
+ * Serve event callbacks over HTTP until the gateway is stopped.
+ */
+async function startWebhook(
+  state: GatewayState,
+  feishuCfg: Config,
+  handlers: EventHandlerMap,
+  logger: Logger
+): Promise<void> {
+  const { log, error } = logger;
+  const host = feishuCfg.webhookHost ?? WEBHOOK_DEFAULT_HOST;
+  const port = feishuCfg.webhookPort ?? WEBHOOK_DEFAULT_PORT;
+  const path = feishuCfg.webhookPath ?? WEBHOOK_DEFAULT_PATH;
+
+  // Each account runs its own server: a shared port would fail with EADDRINUSE
+  const conflict = [...gateways.values()].find(
+    (other) =>
+      other !== state &&
+      other.webhookAddress?.port === port &&
+      (other.webhookAddress.host === host || [host, other.webhookAddress.host].some(isWildcardHost))
+  );
+  if (conflict) {
+    throw new Error(
+      `Webhook port ${port} is already used by account "${conflict.accountId}"; set a different webhookPort for account "${state.accountId}"`
+    );
+  }
+  state.webhookAddress = { host, port };
+
+  if (!feishuCfg.encryptKey && !feishuCfg.verificationToken) {
+    error("Gateway: webhook mode without encryptKey or verificationToken accepts unauthenticated events");
+  }
+
+  try {
+    state.webhookServer = await startWebhookServer({
+      host,
+      port,
+      path,
+      encryptKey: feishuCfg.encryptKey,
+      verificationToken: feishuCfg.verificationToken,
+      handlers,
+      log,
+      error,
+    });
+  } catch (err) {
+    state.webhookAddress = null;
+    throw err;
+  }
+  log(`Gateway: webhook server listening on http://${host}:${port}${path}`);
+
+  await waitForStop(state);
+  log("Gateway: stopping due to abort signal");
 }
 
 /**
  * Start WebSocket connection with automatic reconnection on failure.
  */
 async function startWithReconnect(
+  state: GatewayState,
   feishuCfg: Config,
   eventDispatcher: Lark.EventDispatcher,
-  logger: { log: (msg: string) => void; error: (msg: string) => void }
+  logger: Logger
 ): Promise<void> {
   const { log, error } = logger;
 
@@ -306,7 +637,7 @@ async function startWithReconnect(
       );
 
       // Create fresh WebSocket client for each attempt
-      const wsClient = createWsClient(feishuCfg);
+      const wsClient = createWsClient(feishuCfg, state.accountId);
       state.wsClient = wsClient;
 
       // Start the WebSocket client
@@ -320,14 +651,7 @@ async function startWithReconnect(
       // The SDK's start() resolves immediately after connection.
       // We need to keep the gateway running, so we wait indefinitely
       // until shouldStop is set or the connection drops.
-      await new Promise<void>((resolve) => {
-        const checkInterval = setInterval(() => {
-          if (state.shouldStop) {
-            clearInterval(checkInterval);
-            resolve();
-          }
-        }, 1000);
-      });
+      await waitForStop(state);
 
       // If we reach here and shouldStop is true, exit cleanly
       if (state.shouldStop) {
@@ -365,21 +689,18 @@ async function startWithReconnect(
   }
 }
 
-export async function stopGateway(): Promise<void> {
-  state.shouldStop = true;
-  if (state.batchProcessor) {
-    state.batchProcessor.dispose();
-    state.batchProcessor = null;
-  }
-  if (state.wsClient) {
-    state.wsClient = null;
+/**
+ * Stop a gateway instance, or every running account when no accountId is given.
+ */
+export async function stopGateway(accountId?: string | null): Promise<void> {
+  const targets =
+    accountId === undefined || accountId === null
+      ? Array.from(gateways.values())
+      : [gateways.get(normalizeAccountId(accountId))].filter((s): s is GatewayState => Boolean(s));
+
+  for (const state of targets) {
+    teardownState(state);
+    state.chatHistories.clear();
+    gateways.delete(state.accountId);
   }
-  state.botOpenId = undefined;
-  state.botName = undefined;
-  state.chatHistories.clear();
-  state.isReconnecting = false;
-  state.reconnectAttempts = 0;
-  // Stop dedup cleanup timer and clear queues
-  stopDedupCleanup();
-  clearAllQueues();
 }
@@ -13,24 +13,51 @@ import {
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import os from "node:os";
-import crypto from "node:crypto";
 
 import type { Config } from "../config/schema.js";
-import type { MessageReceivedEvent } from "../types/index.js";
-import type { ParsedMessage } from "../types/index.js";
+import { mergeAccountConfig, normalizeAccountId } from "../config/schema.js";
+import type {
+  MessageReceivedEvent,
+  MessageUpdatedEvent,
+  MessageRecalledEvent,
+  MessageReactionEvent,
+  CardActionEvent,
+} from "../types/index.js";
+import type { ParsedMessage, MessageAttachment, MessageInfo } from "../types/index.js";
 import type { BatchProcessor, FlushParams } from "./batch-processor.js";
-import { parseMessageEvent } from "./parser.js";
-import { checkGroupPolicy, shouldRequireMention } from "./policy.js";
+import {
+  parseMessageEvent,
+  parseCardActionEvent,
+  getConversationKey,
+  getThreadRootId,
+  extractAttachments,
+  formatForwardedTranscript,
+} from "./parser.js";
+import { checkGroupPolicy, resolveChatSettings, shouldRequireMention } from "./policy.js";
 import { createReplyDispatcher } from "./reply-dispatcher.js";
-import { getMessage, sendTextMessage } from "../api/messages.js";
-import { downloadMessageResource } from "../api/media.js";
-import { getUserByOpenId, getUserByUnionId } from "../api/directory.js";
+import {
+  getMessage,
+  getMergeForwardMessages,
+  recallMessage,
+  sendTextMessage,
+} from "../api/messages.js";
+import { downloadMessageResource, getOpusDuration, MediaTooLargeError } from "../api/media.js";
+import { getUserByOpenId, getUserByUnionId, getChatType } from "../api/directory.js";
 import { getRuntime } from "./runtime.js";
+import { getMediaCache } from "./media-cache.js";
+import { recordSessionChat } from "./sessions.js";
+import type { ChatScope } from "./sessions.js";
+import { formatVoiceMessage, getTranscriptionProvider } from "./transcription.js";
+import type { ReplyTracker, TrackedReply } from "./reply-tracker.js";
 import { matchAllowlist as matchAllowlistPolicy } from "./policy.js";
+import { isCommandAuthorized, isLocalCommand, parseCommand, runLocalCommand } from "./commands.js";
+import { backfillHistory } from "./history-backfill.js";
 
 interface MediaInfo { path: string; contentType: string; }
 
+/** Most attachments downloaded for one inbound message */
+const MAX_ATTACHMENTS = 10;
+
 const MIME_MAP: Record<string, string> = {
   ".txt": "text/plain", ".json": "application/json", ".pdf": "application/pdf",
   ".doc": "application/msword", ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
@@ -57,21 +84,16 @@ function getExtension(contentType: string, fileName?: string): string {
   return EXT_MAP[contentType] ?? "";
 }
 
-function getMediaDir(feishuCfg: Config): string {
-  if (feishuCfg.mediaDir) {
-    return feishuCfg.mediaDir.startsWith("~") ? feishuCfg.mediaDir.replace("~", os.homedir()) : feishuCfg.mediaDir;
-  }
-  // Default: system temp directory
-  return path.join(os.tmpdir(), "openclaw-feishu-media");
-}
-
 /**
- * Download and save media from Feishu to a file.
- * Uses messageResource API for user-sent messages.
- * Save location is configurable via `mediaDir` config option.
+ * Download media from Feishu into the media cache.
+ * Uses messageResource API for user-sent messages; a file_key already in the
+ * cache for this chat is served from disk. Location is configurable via `mediaDir`.
+ *
+ * @throws MediaTooLargeError if the file exceeds `mediaMaxMb`
  */
 async function downloadAndSaveMedia(
   feishuCfg: Config,
+  scope: ChatScope,
   messageId: string,
   fileKey: string,
   resourceType: "image" | "file",
@@ -79,33 +101,100 @@ async function downloadAndSaveMedia(
   originalFileName?: string
 ): Promise<MediaInfo | null> {
   try {
+    const cache = getMediaCache(feishuCfg);
+    const cached = await cache.get(fileKey, scope);
+    if (cached) {
+      log(`[feishu] Using cached ${resourceType}: ${cached.path}`);
+      return { path: cached.path, contentType: cached.contentType };
+    }
+
     log(`[feishu] Downloading ${resourceType}: ${fileKey} from message ${messageId}`);
     const buffer = await downloadMessageResource(feishuCfg, {
       messageId,
       fileKey,
       type: resourceType,
     });
-    
+
     const contentType = detectContentType(buffer, originalFileName);
-    const ext = getExtension(contentType, originalFileName);
-    
-    // Get media directory from config or use default temp directory
-    const mediaDir = getMediaDir(feishuCfg);
-    await fs.mkdir(mediaDir, { recursive: true });
-    
-    // Use original filename or generate one
-    const baseName = originalFileName 
-      ? path.basename(originalFileName, path.extname(originalFileName))
-      : crypto.randomUUID();
-    const fileName = `${baseName}-${crypto.randomUUID().slice(0, 8)}${ext}`;
-    const filePath = path.join(mediaDir, fileName);
-    await fs.writeFile(filePath, buffer);
-    
-    log(`[feishu] Saved ${resourceType} to: ${filePath} (${contentType}, ${buffer.length} bytes)`);
-    
-    return { path: filePath, contentType };
+    const entry = await cache.put(fileKey, buffer, {
+      messageId,
+      accountId: scope.accountId,
+      chatId: scope.chatId,
+      contentType,
+      ext: getExtension(contentType, originalFileName),
+      fileName: originalFileName,
+    });
+
+    log(`[feishu] Saved ${resourceType} to: ${entry.path} (${contentType}, ${buffer.length} bytes)`);
+
+    return { path: entry.path, contentType };
   } catch (err) {
     log(`[feishu] Failed to download ${resourceType}: ${String(err)}`);
+    if (err instanceof MediaTooLargeError) throw err;
+    return null;
+  }
+}
+
+/**
+ * Body for a downloaded voice message: duration from the Opus container and,
+ * if a transcription provider is set up, the transcript.
+ */
+async function describeVoiceMessage(
+  feishuCfg: Config,
+  fileKey: string,
+  media: MediaInfo,
+  log: (msg: string) => void
+): Promise<string> {
+  let durationMs: number | undefined;
+  try {
+    durationMs = getOpusDuration(await fs.readFile(media.path));
+  } catch {
+    // Unreadable file: no duration
+  }
+
+  let transcript: string | undefined;
+  const provider = getTranscriptionProvider(feishuCfg);
+  if (provider) {
+    try {
+      const request = { filePath: media.path, contentType: media.contentType, durationMs };
+      transcript = (await provider.transcribe(request)) || undefined;
+      log(`[feishu] Transcribed voice message ${fileKey} (${provider.name})`);
+    } catch (err) {
+      log(`[feishu] Transcription failed (${provider.name}): ${String(err)}`);
+    }
+  }
+  return formatVoiceMessage(fileKey, durationMs, transcript);
+}
+
+/**
+ * Fetch a merged-forward bundle: its transcript (with sender names) and the
+ * attachments of its sub-messages. Returns null if the bundle cannot be read.
+ */
+async function expandMergeForward(
+  feishuCfg: Config,
+  messageId: string,
+  log: (msg: string) => void
+): Promise<{ transcript: string; attachments: MessageAttachment[] } | null> {
+  try {
+    const messages = await getMergeForwardMessages(feishuCfg, messageId);
+    const senderNames = new Map<string, string>();
+    const senderIds = new Set(messages.map((m) => m.senderId ?? ""));
+    for (const senderId of senderIds) {
+      if (!senderId.startsWith("ou_")) continue;
+      try {
+        const user = await getUserByOpenId(feishuCfg, senderId);
+        if (user?.name) senderNames.set(senderId, user.name);
+      } catch {
+        // Ignore lookup failures; the transcript shows the ID
+      }
+    }
+    log(`[feishu] Expanded forwarded bundle ${messageId} (${messages.length} messages)`);
+    return {
+      transcript: formatForwardedTranscript(messageId, messages, senderNames),
+      attachments: messages.flatMap((m) => extractAttachments(m.messageId, m.msgType, m.content)),
+    };
+  } catch (err) {
+    log(`[feishu] Failed to fetch forwarded messages: ${String(err)}`);
     return null;
   }
 }
@@ -114,24 +203,113 @@ async function downloadAndSaveMedia(
 
 export interface MessageHandlerParams {
   cfg: OpenClawConfig;
+  /** Account that received the event (defaults to the default account) */
+  accountId?: string;
   event: MessageReceivedEvent;
   botOpenId?: string;
   botName?: string;
   runtime?: RuntimeEnv;
   chatHistories?: Map<string, HistoryEntry[]>;
+  replyTracker?: ReplyTracker;
+  batchProcessor?: BatchProcessor;
+  /** Chats where /pause stopped the bot */
+  pausedChats?: Set<string>;
+  /** Conversations whose history was already backfilled */
+  backfilledChats?: Set<string>;
+}
+
+export interface MessageUpdateHandlerParams {
+  cfg: OpenClawConfig;
+  /** Account that received the event (defaults to the default account) */
+  accountId?: string;
+  event: MessageUpdatedEvent;
+  botOpenId?: string;
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+  replyTracker: ReplyTracker;
+  /** Chats where /pause stopped the bot */
+  pausedChats?: Set<string>;
+}
+
+export interface RecallCancelParams {
+  event: MessageRecalledEvent;
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
   batchProcessor?: BatchProcessor;
+  replyTracker: ReplyTracker;
+}
+
+export interface MessageRecallHandlerParams {
+  cfg: OpenClawConfig;
+  /** Account that received the event (defaults to the default account) */
+  accountId?: string;
+  event: MessageRecalledEvent;
+  runtime?: RuntimeEnv;
+  replyTracker: ReplyTracker;
+}
+
+export interface ReactionHandlerParams {
+  cfg: OpenClawConfig;
+  /** Account that received the event (defaults to the default account) */
+  accountId?: string;
+  event: MessageReactionEvent;
+  /** Whether the reaction was added or removed */
+  action: "created" | "deleted";
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+  replyTracker: ReplyTracker;
+  /** Chats where /pause stopped the bot */
+  pausedChats?: Set<string>;
+}
+
+export interface CardActionHandlerParams {
+  cfg: OpenClawConfig;
+  /** Account that received the event (defaults to the default account) */
+  accountId?: string;
+  event: CardActionEvent;
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+  replyTracker?: ReplyTracker;
+  /** Chats where /pause stopped the bot */
+  pausedChats?: Set<string>;
 }
 
 export interface DispatchParams {
   cfg: OpenClawConfig;
+  accountId?: string;
   feishuCfg: Config;
   parsed: ParsedMessage;
   runtime?: RuntimeEnv;
   chatHistories?: Map<string, HistoryEntry[]>;
-  historyLimit: number;
   batchedMessages?: FlushParams["messages"];
   /** If true, agent decides whether to respond (no typing indicator, no reply-to) */
   isAutoReply?: boolean;
+  /** Records the replies so edits and recalls of the message can follow them */
+  replyTracker?: ReplyTracker;
+  /** Chats where /pause stopped the bot; nothing is dispatched for them */
+  pausedChats?: Set<string>;
+  /** Replies to an earlier version of the message (set when it was edited) */
+  previousReplies?: TrackedReply[];
+  /** Marker put before the message body, e.g. "[Edited]" */
+  bodyPrefix?: string;
+}
+
+// History
+
+/**
+ * Pending history limit of a chat: `historyLimit` for groups (else
+ * `messages.groupChat.historyLimit`), `dmHistoryLimit` for DMs (default 0).
+ */
+function resolveHistoryLimit(
+  cfg: OpenClawConfig,
+  feishuCfg: Config,
+  chatType: ParsedMessage["chatType"]
+): number {
+  if (chatType !== "group") return Math.max(0, feishuCfg.dmHistoryLimit ?? 0);
+  return Math.max(
+    0,
+    feishuCfg.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT
+  );
 }
 
 // Message Handler
@@ -139,14 +317,17 @@ export interface DispatchParams {
 export async function handleMessage(params: MessageHandlerParams): Promise<void> {
   const {
     cfg,
+    accountId,
     event,
     botOpenId,
     botName: _botName,
     runtime,
     chatHistories,
+    replyTracker,
     batchProcessor,
+    pausedChats,
   } = params;
-  const feishuCfg = cfg.channels?.feishu as Config | undefined;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
   const log = runtime?.log ?? console.log;
 
   if (!feishuCfg) {
@@ -163,6 +344,13 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
   }
 
   const parsed = parseMessageEvent(event, botOpenId);
+
+  // Disabled chats are ignored entirely: no lookups, commands, history or backfill
+  if (!isChatEnabled(feishuCfg, parsed, parsed.senderOpenId)) {
+    log(`Bot disabled in ${parsed.chatId} by config, ignoring message`);
+    return;
+  }
+
   if (!parsed.senderName && parsed.senderOpenId) {
     try {
       const user = await getUserByOpenId(feishuCfg, parsed.senderOpenId);
@@ -195,10 +383,7 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
 
   log(`Received message from ${senderLabel} in ${parsed.chatId} (${parsed.chatType})`);
 
-  const historyLimit = Math.max(
-    0,
-    feishuCfg.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT
-  );
+  const historyLimit = resolveHistoryLimit(cfg, feishuCfg, parsed.chatType);
 
   if (isGroup) {
     const result = checkGroupPolicy(feishuCfg, parsed.chatId, parsed.senderOpenId);
@@ -208,7 +393,18 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
       return;
     }
 
+    const addressed =
+      parsed.mentionedBot || !shouldRequireMention(feishuCfg, parsed.chatType, parsed.chatId);
+    if (addressed && (await handleLocalCommand(params, feishuCfg, parsed))) return;
+    if (pausedChats?.has(parsed.chatId)) {
+      log(`Bot paused in ${parsed.chatId}, ignoring message`);
+      return;
+    }
+
+    await backfillOnFirstContact(params, feishuCfg, parsed, historyLimit);
+
     if (batchProcessor) {
+      await batchProcessor.prepareTriggers(parsed, event);
       batchProcessor.processMessage(parsed, event);
       return;
     }
@@ -220,7 +416,7 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
       if (chatHistories) {
         recordPendingHistoryEntryIfEnabled({
           historyMap: chatHistories,
-          historyKey: parsed.chatId,
+          historyKey: getConversationKey(parsed),
           limit: historyLimit,
           entry: {
             sender: senderLabel,
@@ -238,24 +434,11 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
 
     if (dmPolicy !== "open") {
       const core = getRuntime() as PluginRuntime;
-      
-      // Merge config allowFrom with store allowFrom
-      const configAllowFrom = (feishuCfg?.allowFrom ?? []).map((entry) => String(entry));
-      const storeAllowFrom = await core.channel.pairing
-        .readAllowFromStore("feishu")
-        .catch(() => []);
-      const effectiveAllowFrom = [...configAllowFrom, ...storeAllowFrom]
-        .map((entry) => String(entry).trim())
-        .filter(Boolean);
-
-      // Check if sender is in allowlist
-      const match = matchAllowlistPolicy(
-        effectiveAllowFrom as (string | number)[],
-        parsed.senderOpenId,
-        parsed.senderName
-      );
 
-      if (!match.allowed) {
+      // Check if sender is in allowlist (config + pairing store)
+      const allowed = await isDmSenderAllowed(feishuCfg, parsed.senderOpenId, parsed.senderName);
+
+      if (!allowed) {
         if (dmPolicy === "pairing") {
           // Create pairing request
           const { code, created } = await core.channel.pairing.upsertPairingRequest({
@@ -289,15 +472,485 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
         return;
       }
     }
+
+    if (await handleLocalCommand(params, feishuCfg, parsed)) return;
+    if (pausedChats?.has(parsed.chatId)) {
+      log(`Bot paused in ${parsed.chatId}, ignoring message`);
+      return;
+    }
+
+    await backfillOnFirstContact(params, feishuCfg, parsed, historyLimit);
   }
 
   await dispatchToAgent({
     cfg,
+    accountId,
     feishuCfg,
     parsed,
     runtime,
     chatHistories,
-    historyLimit,
+    replyTracker,
+    pausedChats,
+  });
+}
+
+/**
+ * Fill a chat's pending history from Feishu the first time it is seen since
+ * the gateway started, so the agent sees the messages before it. Group
+ * backfills leave out bot messages.
+ */
+async function backfillOnFirstContact(
+  params: MessageHandlerParams,
+  feishuCfg: Config,
+  parsed: ParsedMessage,
+  limit: number
+): Promise<void> {
+  const { chatHistories, backfilledChats } = params;
+  // The message list cannot be filtered by thread
+  if (getThreadRootId(parsed)) return;
+  if (limit <= 0 || !chatHistories || !backfilledChats || backfilledChats.has(parsed.chatId)) {
+    return;
+  }
+  backfilledChats.add(parsed.chatId);
+
+  const log = params.runtime?.log ?? console.log;
+  try {
+    const added = await backfillHistory(feishuCfg, chatHistories, parsed.chatId, {
+      chatId: parsed.chatId,
+      messageId: parsed.messageId,
+      createTime: Number(params.event.message.create_time) || undefined,
+      limit,
+      botName: params.botName,
+      skipBotMessages: parsed.chatType === "group",
+    });
+    if (added > 0) log(`Backfilled ${added} messages of ${parsed.chatId}`);
+  } catch (err) {
+    log(`[feishu] History backfill failed for ${parsed.chatId}: ${String(err)}`);
+  }
+}
+
+/**
+ * Run the message if it is one of the plugin's own commands and reply with
+ * the result (or a refusal if the sender is not authorized).
+ *
+ * @returns true if the message was a local command
+ */
+async function handleLocalCommand(
+  params: MessageHandlerParams,
+  feishuCfg: Config,
+  parsed: ParsedMessage
+): Promise<boolean> {
+  const command = parseCommand(parsed.content);
+  if (!command || !isLocalCommand(feishuCfg, command.name)) return false;
+  const log = params.runtime?.log ?? console.log;
+
+  const text = isCommandAuthorized(feishuCfg, command.name, parsed)
+    ? runLocalCommand(command.name, {
+        accountId: normalizeAccountId(params.accountId),
+        parsed,
+        pausedChats: params.pausedChats ?? new Set(),
+        chatHistories: params.chatHistories,
+        historyKey: getConversationKey(parsed),
+      })
+    : `You are not allowed to use /${command.name}.`;
+  log(`Command /${command.name} from ${parsed.senderOpenId} in ${parsed.chatId}`);
+
+  try {
+    await sendTextMessage(feishuCfg, {
+      to: parsed.chatId,
+      text,
+      replyToMessageId: parsed.messageId,
+      replyInThread: getThreadRootId(parsed) !== undefined,
+    });
+  } catch (err) {
+    log(`[feishu] Failed to reply to /${command.name}: ${String(err)}`);
+  }
+  return true;
+}
+
+/**
+ * Check a DM sender against config allowFrom merged with the pairing store.
+ */
+async function isDmSenderAllowed(
+  feishuCfg: Config,
+  senderOpenId: string,
+  senderName?: string
+): Promise<boolean> {
+  const core = getRuntime() as PluginRuntime;
+  const configAllowFrom = (feishuCfg.allowFrom ?? []).map((entry) => String(entry));
+  const storeAllowFrom = await core.channel.pairing.readAllowFromStore("feishu").catch(() => []);
+  const effectiveAllowFrom = [...configAllowFrom, ...storeAllowFrom]
+    .map((entry) => String(entry).trim())
+    .filter(Boolean);
+
+  return matchAllowlistPolicy(effectiveAllowFrom as (string | number)[], senderOpenId, senderName)
+    .allowed;
+}
+
+// Edit and Recall Handlers
+
+/**
+ * Handle an im.message.updated_v1 event. If the agent answered the original
+ * message, the edited text is dispatched again and the answer is replaced:
+ * earlier replies are edited in place where possible and recalled otherwise.
+ * Edits of messages the agent never answered are ignored.
+ */
+export async function handleMessageUpdate(params: MessageUpdateHandlerParams): Promise<void> {
+  const { cfg, accountId, event, botOpenId, runtime, chatHistories, replyTracker, pausedChats } =
+    params;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
+  const log = runtime?.log ?? console.log;
+
+  if (!feishuCfg) {
+    log("Feishu config not found, skipping message edit");
+    return;
+  }
+
+  const tracked = replyTracker.get(event.message_id);
+  if (!tracked) {
+    log(`Edited message ${event.message_id} was not answered, skipping`);
+    return;
+  }
+
+  const original = tracked.parsed;
+  const parsed = parseMessageEvent(
+    {
+      sender: {
+        sender_id: { open_id: original.senderOpenId, union_id: original.senderUnionId },
+        sender_type: "user",
+      },
+      message: {
+        message_id: event.message_id,
+        root_id: event.root_id,
+        parent_id: event.parent_id,
+        thread_id: event.thread_id,
+        chat_id: event.chat_id,
+        chat_type: original.chatType,
+        message_type: event.message_type,
+        content: event.content,
+        mentions: event.mentions,
+        create_time: event.create_time,
+        update_time: event.update_time,
+      },
+    },
+    botOpenId
+  );
+  parsed.senderName = original.senderName;
+
+  log(`Message ${event.message_id} edited, updating ${tracked.replies.length} replies`);
+  await dispatchToAgent({
+    cfg,
+    accountId,
+    feishuCfg,
+    parsed,
+    runtime,
+    chatHistories,
+    replyTracker,
+    pausedChats,
+    previousReplies: tracked.replies,
+    bodyPrefix: "[Edited]",
+  });
+}
+
+/**
+ * Forget a recalled message right away: drop it from pending history and
+ * batch buffers, and abort the agent run answering it. Called outside the
+ * chat queue, which a running dispatch holds until it finishes.
+ */
+export function cancelRecalledMessage(params: RecallCancelParams): void {
+  const { event, runtime, chatHistories, batchProcessor, replyTracker } = params;
+  const log = runtime?.log ?? console.log;
+
+  for (const [key, entries] of chatHistories ?? []) {
+    const kept = entries.filter((entry) => entry.messageId !== event.message_id);
+    if (kept.length !== entries.length) chatHistories?.set(key, kept);
+  }
+  batchProcessor?.removeMessage(event.message_id);
+
+  const controller = replyTracker.get(event.message_id)?.abortController;
+  if (controller && !controller.signal.aborted) {
+    log(`Message ${event.message_id} recalled, aborting its reply`);
+    controller.abort();
+  }
+}
+
+/**
+ * Handle an im.message.recalled_v1 event: recall the bot's replies to the
+ * message, if the agent answered it (unless `recall.retractReplies` is false).
+ */
+export async function handleMessageRecall(params: MessageRecallHandlerParams): Promise<void> {
+  const { cfg, accountId, event, runtime, replyTracker } = params;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
+  const log = runtime?.log ?? console.log;
+
+  const tracked = replyTracker.get(event.message_id);
+  if (!feishuCfg || !tracked) return;
+  replyTracker.delete(event.message_id);
+  if (feishuCfg.recall?.retractReplies === false) return;
+
+  log(`Message ${event.message_id} recalled, recalling ${tracked.replies.length} replies`);
+  for (const reply of tracked.replies) {
+    try {
+      await recallMessage(feishuCfg, reply.messageId);
+    } catch (err) {
+      log(`Failed to recall reply ${reply.messageId}: ${String(err)}`);
+    }
+  }
+}
+
+// Reaction Handler
+
+/**
+ * Handle a reaction to a bot message (im.message.reaction.created_v1 / deleted_v1).
+ * Emoji commands from `reactions.commands` run first: "regenerate" answers
+ * the original message again (for its sender only) and "resolve" closes the
+ * conversation. Other reactions are noted in the session for the agent's next
+ * turn (`reactions.mode: "feedback"`) or, when added, delivered as a message
+ * the agent answers ("agent"). Access policies apply to the operator.
+ */
+export async function handleReaction(params: ReactionHandlerParams): Promise<void> {
+  const { cfg, accountId, event, action, runtime, chatHistories, replyTracker, pausedChats } =
+    params;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
+  const log = runtime?.log ?? console.log;
+
+  if (!feishuCfg) {
+    log("Feishu config not found, skipping reaction");
+    return;
+  }
+
+  const emojiType = event.reaction_type?.emoji_type;
+  const operatorId = event.user_id?.open_id;
+  // Reactions by apps include the bot's own typing indicator
+  if (event.operator_type === "app" || !emojiType || !operatorId) return;
+
+  const mode = feishuCfg.reactions?.mode ?? "feedback";
+  const command = action === "created" ? feishuCfg.reactions?.commands?.[emojiType] : undefined;
+  if (mode === "off" && !command) return;
+
+  // Disabled chats are ignored before any lookup. Reaction events carry no
+  // chat id, so the chat of an untracked bot message is looked up first.
+  const tracked = replyTracker.findByReply(event.message_id);
+  if (tracked && !isChatEnabled(feishuCfg, tracked.parsed, operatorId)) {
+    log(`Bot disabled in ${tracked.parsed.chatId} by config, ignoring reaction`);
+    return;
+  }
+  const context = tracked?.parsed ?? (await getBotMessageContext(feishuCfg, event.message_id));
+  if (!context) {
+    log(`Reaction on ${event.message_id} skipped (not a bot message)`);
+    return;
+  }
+  if (!tracked && !isChatEnabled(feishuCfg, context, operatorId)) {
+    log(`Bot disabled in ${context.chatId} by config, ignoring reaction`);
+    return;
+  }
+
+  // The reaction as a message from the operator, quoting the bot message
+  const parsed: ParsedMessage = {
+    chatId: context.chatId,
+    messageId: event.message_id,
+    senderId: event.user_id?.user_id ?? operatorId,
+    senderOpenId: operatorId,
+    senderUnionId: event.user_id?.union_id,
+    chatType: context.chatType,
+    mentionedBot: true,
+    rootId: tracked ? getThreadRootId(tracked.parsed) : undefined,
+    threadId: tracked?.parsed.threadId,
+    parentId: event.message_id,
+    content: `[Reaction ${action === "created" ? "added" : "removed"}: ${emojiType}]`,
+    contentType: "reaction",
+  };
+  const user = await getUserByOpenId(feishuCfg, operatorId).catch(() => null);
+  if (user?.name) parsed.senderName = user.name;
+
+  if (parsed.chatType === "group") {
+    if (!checkGroupPolicy(feishuCfg, parsed.chatId, operatorId).allowed) {
+      log(`Sender ${operatorId} not in group allowlist, ignoring reaction`);
+      return;
+    }
+  } else if ((feishuCfg.dmPolicy ?? "pairing") !== "open") {
+    if (!(await isDmSenderAllowed(feishuCfg, operatorId, parsed.senderName))) {
+      log(`Sender ${operatorId} not in DM allowlist, ignoring reaction`);
+      return;
+    }
+  }
+
+  const core = getRuntime() as PluginRuntime;
+  const { sessionKey } = resolveSession(cfg, accountId, parsed);
+  const operatorLabel = parsed.senderName ?? operatorId;
+
+  if (command === "regenerate") {
+    if (!tracked || tracked.parsed.senderOpenId !== operatorId) {
+      log(`Regenerate by ${operatorId} skipped (not the sender of an answered message)`);
+      return;
+    }
+    log(`Regenerating the answer to ${tracked.parsed.messageId} (${emojiType})`);
+    await dispatchToAgent({
+      cfg,
+      accountId,
+      feishuCfg,
+      parsed: tracked.parsed,
+      runtime,
+      chatHistories,
+      replyTracker,
+      pausedChats,
+      previousReplies: tracked.replies,
+      bodyPrefix: "[Regenerate: the previous answer was rejected, answer again]",
+    });
+    return;
+  }
+
+  if (command === "resolve") {
+    chatHistories?.delete(getConversationKey(parsed));
+    core.system.enqueueSystemEvent(
+      `Feishu: ${operatorLabel} marked the conversation as resolved (${emojiType} on message ${event.message_id})`,
+      { sessionKey, contextKey: `feishu:reaction:resolve:${event.message_id}` }
+    );
+    log(`Conversation ${getConversationKey(parsed)} marked resolved by ${operatorId}`);
+    return;
+  }
+
+  if (mode === "agent" && action === "created") {
+    await dispatchToAgent({
+      cfg,
+      accountId,
+      feishuCfg,
+      parsed,
+      runtime,
+      chatHistories,
+      replyTracker,
+      pausedChats,
+    });
+    return;
+  }
+
+  core.system.enqueueSystemEvent(
+    `Feishu reaction ${action === "created" ? "added" : "removed"}: ${emojiType} by ${operatorLabel} on message ${event.message_id}`,
+    {
+      sessionKey,
+      contextKey: `feishu:reaction:${action}:${event.message_id}:${operatorId}:${emojiType}`,
+    }
+  );
+}
+
+/**
+ * Whether the bot is enabled in a chat (`groups.<chat_id>.enabled` or
+ * `dms.<open_id>.enabled` of the sender).
+ */
+function isChatEnabled(
+  feishuCfg: Config,
+  chat: Pick<ParsedMessage, "chatId" | "chatType">,
+  senderOpenId: string
+): boolean {
+  return resolveChatSettings(feishuCfg, chat.chatType, chat.chatId, senderOpenId).enabled;
+}
+
+/**
+ * Whether a message was sent by this account's app.
+ */
+function isSentByBot(feishuCfg: Config, message: MessageInfo | null): boolean {
+  if (message?.senderType !== "app") return false;
+  return !feishuCfg.appId || message.senderId === feishuCfg.appId;
+}
+
+/**
+ * Look up whether the bot sent a message (e.g. before a restart).
+ */
+export async function lookupBotMessage(feishuCfg: Config, messageId: string): Promise<boolean> {
+  const message = await getMessage(feishuCfg, messageId).catch(() => null);
+  return isSentByBot(feishuCfg, message);
+}
+
+/**
+ * Chat of a message sent by the bot; null for other senders' messages.
+ */
+async function getBotMessageContext(
+  feishuCfg: Config,
+  messageId: string
+): Promise<Pick<ParsedMessage, "chatId" | "chatType"> | null> {
+  const message = await getMessage(feishuCfg, messageId).catch(() => null);
+  if (!message?.chatId || !isSentByBot(feishuCfg, message)) return null;
+  const chatType = (await getChatType(feishuCfg, message.chatId)) ?? "group";
+  return { chatId: message.chatId, chatType };
+}
+
+// Card Action Handler
+
+/**
+ * Handle a card.action.trigger callback (button click, select, form submit).
+ * The action is delivered to the agent as an inbound message in the card's
+ * chat session, replying to the card. Access policies apply to the operator.
+ */
+export async function handleCardAction(params: CardActionHandlerParams): Promise<void> {
+  const { cfg, accountId, event, runtime, chatHistories, replyTracker, pausedChats } = params;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
+  const log = runtime?.log ?? console.log;
+
+  if (!feishuCfg) {
+    log("Feishu config not found, skipping card action");
+    return;
+  }
+
+  if (feishuCfg.cardActions?.enabled === false) {
+    log("Card actions disabled, skipping");
+    return;
+  }
+
+  if (feishuCfg.debugRawEvents) {
+    try {
+      log(`[feishu] Raw card action: ${JSON.stringify(event)}`);
+    } catch {
+      log("[feishu] Raw card action: <unserializable>");
+    }
+  }
+
+  const chatId = event.context?.open_chat_id;
+  if (!chatId) {
+    log("Card action without chat context, skipping");
+    return;
+  }
+
+  // Disabled chats are ignored before the sender lookup and policy checks
+  const chatType = (await getChatType(feishuCfg, chatId)) ?? "group";
+  if (!isChatEnabled(feishuCfg, { chatId, chatType }, event.operator?.open_id ?? "")) {
+    log(`Bot disabled in ${chatId} by config, ignoring card action`);
+    return;
+  }
+
+  const parsed = parseCardActionEvent(event, chatType);
+  if (!parsed) {
+    log("Card action without message context, skipping");
+    return;
+  }
+
+  if (parsed.senderOpenId) {
+    const user = await getUserByOpenId(feishuCfg, parsed.senderOpenId).catch(() => null);
+    if (user?.name) parsed.senderName = user.name;
+  }
+
+  log(`Received card action from ${parsed.senderName ?? parsed.senderOpenId} in ${chatId} (${chatType})`);
+
+  if (chatType === "group") {
+    if (!checkGroupPolicy(feishuCfg, chatId, parsed.senderOpenId).allowed) {
+      log(`Sender ${parsed.senderOpenId} not in group allowlist`);
+      return;
+    }
+  } else if ((feishuCfg.dmPolicy ?? "pairing") !== "open") {
+    if (!(await isDmSenderAllowed(feishuCfg, parsed.senderOpenId, parsed.senderName))) {
+      log(`Sender ${parsed.senderOpenId} not in DM allowlist, ignoring card action`);
+      return;
+    }
+  }
+
+  await dispatchToAgent({
+    cfg,
+    accountId,
+    feishuCfg,
+    parsed,
+    runtime,
+    chatHistories,
+    replyTracker,
+    pausedChats,
   });
 }
 
@@ -305,18 +958,17 @@ export async function handleMessage(params: MessageHandlerParams): Promise<void>
 
 export function createBatchFlushHandler(params: {
   cfg: OpenClawConfig;
+  accountId?: string;
   runtime?: RuntimeEnv;
   chatHistories: Map<string, HistoryEntry[]>;
+  replyTracker?: ReplyTracker;
+  /** Chats where /pause stopped the bot */
+  pausedChats?: Set<string>;
 }): (flushParams: FlushParams) => Promise<void> {
-  const { cfg, runtime, chatHistories } = params;
-  const feishuCfg = cfg.channels?.feishu as Config | undefined;
+  const { cfg, accountId, runtime, chatHistories, replyTracker, pausedChats } = params;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
   const log = runtime?.log ?? console.log;
 
-  const historyLimit = Math.max(
-    0,
-    feishuCfg?.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT
-  );
-
   return async (flushParams: FlushParams) => {
     if (!feishuCfg) return;
 
@@ -331,13 +983,15 @@ export function createBatchFlushHandler(params: {
 
       await dispatchToAgent({
         cfg,
+        accountId,
         feishuCfg,
         parsed: lastMessage.parsed,
         runtime,
         chatHistories,
-        historyLimit,
         batchedMessages: messages,
         isAutoReply: true,
+        replyTracker,
+        pausedChats,
       });
     } else {
       // Trigger mode: must respond
@@ -345,13 +999,15 @@ export function createBatchFlushHandler(params: {
 
       await dispatchToAgent({
         cfg,
+        accountId,
         feishuCfg,
         parsed: triggerMessage.parsed,
         runtime,
         chatHistories,
-        historyLimit,
         batchedMessages: messages,
         isAutoReply: false,
+        replyTracker,
+        pausedChats,
       });
     }
   };
@@ -359,58 +1015,147 @@ export function createBatchFlushHandler(params: {
 
 // Agent Dispatch
 
+/**
+ * Agent route and session key of a message's conversation.
+ * Each thread gets its own session under the group's route.
+ */
+function resolveSession(
+  cfg: OpenClawConfig,
+  accountId: string | undefined,
+  parsed: ParsedMessage
+): { route: { sessionKey: string; accountId: string; agentId: string }; sessionKey: string } {
+  const core = getRuntime() as PluginRuntime;
+  const isGroup = parsed.chatType === "group";
+  const threadRootId = getThreadRootId(parsed);
+
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "feishu",
+    accountId,
+    peer: {
+      kind: isGroup ? "group" : "dm",
+      id: isGroup ? parsed.chatId : parsed.senderOpenId,
+    },
+  });
+  const sessionKey = threadRootId ? `${route.sessionKey}:thread:${threadRootId}` : route.sessionKey;
+  // Lets tools called by the agent run keep to this conversation
+  recordSessionChat(sessionKey, {
+    accountId: normalizeAccountId(accountId),
+    chatId: parsed.chatId,
+  });
+  return { route, sessionKey };
+}
+
 async function dispatchToAgent(params: DispatchParams): Promise<void> {
-  const { cfg, feishuCfg, parsed, runtime, chatHistories, historyLimit, batchedMessages, isAutoReply } = params;
+  const {
+    cfg,
+    accountId,
+    feishuCfg,
+    parsed,
+    runtime,
+    chatHistories,
+    batchedMessages,
+    isAutoReply,
+    replyTracker,
+    pausedChats,
+    previousReplies,
+    bodyPrefix,
+  } = params;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
   const isGroup = parsed.chatType === "group";
+  const historyLimit = resolveHistoryLimit(cfg, feishuCfg, parsed.chatType);
+  const command = parseCommand(parsed.content);
+  // groups.<chat_id> or dms.<open_id>: enabled, systemPrompt and skills
+  const chatSettings = resolveChatSettings(
+    feishuCfg,
+    parsed.chatType,
+    parsed.chatId,
+    parsed.senderOpenId
+  );
+  if (!chatSettings.enabled) {
+    log(`Bot disabled in ${parsed.chatId} by config, skipping dispatch`);
+    return;
+  }
+  // Also covers edits, reactions, card actions and batches buffered before /pause
+  if (pausedChats?.has(parsed.chatId)) {
+    log(`Bot paused in ${parsed.chatId}, skipping dispatch`);
+    return;
+  }
 
   try {
     const core = getRuntime() as PluginRuntime;
+    // Recalling the message aborts the run (see cancelRecalledMessage)
+    const abortSignal = replyTracker?.track(parsed).abortController.signal;
 
-    const feishuFrom = isGroup ? `feishu:group:${parsed.chatId}` : `feishu:${parsed.senderOpenId}`;
+    const threadRootId = getThreadRootId(parsed);
+    const feishuFrom = isGroup
+      ? `feishu:group:${parsed.chatId}${threadRootId ? `:thread:${threadRootId}` : ""}`
+      : `feishu:${parsed.senderOpenId}`;
     const feishuTo = isGroup ? `chat:${parsed.chatId}` : `user:${parsed.senderOpenId}`;
-
-    const route = core.channel.routing.resolveAgentRoute({
-      cfg,
-      channel: "feishu",
-      peer: {
-        kind: isGroup ? "group" : "dm",
-        id: isGroup ? parsed.chatId : parsed.senderOpenId,
-      },
-    });
+    const { route, sessionKey } = resolveSession(cfg, accountId, parsed);
 
     const senderLabel = parsed.senderName ?? parsed.senderOpenId;
 
-    // Download media if present (image, file, or audio)
-    let mediaInfo: MediaInfo | null = null;
-    if (parsed.imageKey) {
-      mediaInfo = await downloadAndSaveMedia(
-        feishuCfg,
-        parsed.messageId,
-        parsed.imageKey,
-        "image",
-        log
-      );
-    } else if (parsed.fileKey) {
-      // Feishu messageResource API uses "file" type for both files and audio
-      // Audio messages should use "file" type, not "audio"
-      let fileName = parsed.fileName;
-      
-      if (parsed.contentType === "audio") {
-        // Feishu audio is Opus format
-        fileName = fileName ?? "voice.opus";
+    // Merged-forward bundles: render sub-messages as a transcript, collect their attachments
+    const attachments = [...(parsed.attachments ?? [])];
+    // Message bodies replaced by forwarded transcripts and voice transcriptions
+    const expandedContent = new Map<string, string>();
+    const bundles = (batchedMessages?.map((m) => m.parsed) ?? [parsed]).filter(
+      (p) => p.contentType === "merge_forward"
+    );
+    for (const bundle of bundles) {
+      const forwarded = await expandMergeForward(feishuCfg, bundle.messageId, log);
+      if (!forwarded) continue;
+      expandedContent.set(bundle.messageId, forwarded.transcript);
+      if (bundle.messageId === parsed.messageId) attachments.push(...forwarded.attachments);
+    }
+    const contentOf = (p: ParsedMessage) => expandedContent.get(p.messageId) ?? p.content;
+
+    // Download every image, file, audio and video (messageResource uses "file" for non-images)
+    const mediaList: MediaInfo[] = [];
+    if (attachments.length > MAX_ATTACHMENTS) {
+      log(`[feishu] ${attachments.length} attachments, downloading the first ${MAX_ATTACHMENTS}`);
+    }
+    const tooLarge: MediaTooLargeError[] = [];
+    for (const attachment of attachments.slice(0, MAX_ATTACHMENTS)) {
+      try {
+        const info = await downloadAndSaveMedia(
+          feishuCfg,
+          { accountId: normalizeAccountId(accountId), chatId: parsed.chatId },
+          attachment.messageId,
+          attachment.fileKey,
+          attachment.type,
+          log,
+          attachment.fileName
+        );
+        if (!info) continue;
+        mediaList.push(info);
+        if (parsed.contentType === "audio" && attachment.messageId === parsed.messageId) {
+          const voice = await describeVoiceMessage(feishuCfg, attachment.fileKey, info, log);
+          expandedContent.set(parsed.messageId, voice);
+        }
+      } catch (err) {
+        if (err instanceof MediaTooLargeError) tooLarge.push(err);
+      }
+    }
+    // Tell the sender their file was skipped; the agent still gets the message
+    const firstTooLarge = tooLarge[0];
+    if (firstTooLarge) {
+      const limitMb = Math.round(firstTooLarge.maxBytes / 1024 / 1024);
+      const what = tooLarge.length > 1 ? `${tooLarge.length} files are` : "This file is";
+      try {
+        await sendTextMessage(feishuCfg, {
+          to: parsed.chatId,
+          text: `${what} too large to process (limit: ${limitMb} MB).`,
+          replyToMessageId: parsed.messageId,
+          replyInThread: threadRootId !== undefined,
+        });
+      } catch (err) {
+        log(`[feishu] Failed to send size limit notice: ${String(err)}`);
       }
-      
-      mediaInfo = await downloadAndSaveMedia(
-        feishuCfg,
-        parsed.messageId,
-        parsed.fileKey,
-        "file",  // Always use "file" type for messageResource API
-        log,
-        fileName
-      );
     }
+    const mediaInfo = mediaList[0];
 
     let quotedContent: string | undefined;
     if (parsed.parentId) {
@@ -442,7 +1187,7 @@ async function dispatchToAgent(params: DispatchParams): Promise<void> {
           from: m.parsed.senderName ?? m.parsed.senderOpenId,
           timestamp: new Date(),
           envelope: envelopeOptions,
-          body: m.parsed.content,
+          body: contentOf(m.parsed),
         })
       );
       combinedBody = formattedMessages.join("\n\n");
@@ -452,9 +1197,12 @@ async function dispatchToAgent(params: DispatchParams): Promise<void> {
         combinedBody = `${autoReplyHint}\n\n---\n\n${combinedBody}`;
       }
     } else {
-      let messageBody = parsed.content;
+      let messageBody = contentOf(parsed);
+      if (bodyPrefix) {
+        messageBody = `${bodyPrefix} ${messageBody}`;
+      }
       if (quotedContent) {
-        messageBody = `[Replying to: "${quotedContent}"]\n\n${parsed.content}`;
+        messageBody = `[Replying to: "${quotedContent}"]\n\n${messageBody}`;
       }
 
       const body = core.channel.reply.formatAgentEnvelope({
@@ -466,36 +1214,39 @@ async function dispatchToAgent(params: DispatchParams): Promise<void> {
       });
 
       combinedBody = body;
-      const historyKey = isGroup ? parsed.chatId : undefined;
+    }
 
-      if (isGroup && historyKey && chatHistories) {
-        combinedBody = buildPendingHistoryContextFromMap({
-          historyMap: chatHistories,
-          historyKey,
-          limit: historyLimit,
-          currentMessage: combinedBody,
-          formatEntry: (entry: HistoryEntry) =>
-            core.channel.reply.formatAgentEnvelope({
-              channel: "Feishu",
-              from: parsed.chatId,
-              timestamp: entry.timestamp,
-              body: `${entry.sender}: ${entry.body}`,
-              envelope: envelopeOptions,
-            }),
-        });
-      }
+    // Unanswered group messages, and messages backfilled after a restart
+    // (the only history of DMs and batched groups, see backfillOnFirstContact)
+    if (chatHistories) {
+      combinedBody = buildPendingHistoryContextFromMap({
+        historyMap: chatHistories,
+        historyKey: getConversationKey(parsed),
+        limit: historyLimit,
+        currentMessage: combinedBody,
+        formatEntry: (entry: HistoryEntry) =>
+          core.channel.reply.formatAgentEnvelope({
+            channel: "Feishu",
+            from: isGroup ? parsed.chatId : senderLabel,
+            timestamp: entry.timestamp,
+            body: `${entry.sender}: ${entry.body}`,
+            envelope: envelopeOptions,
+          }),
+      });
     }
 
     const ctxPayload = core.channel.reply.finalizeInboundContext({
       Body: combinedBody,
-      RawBody: parsed.content,
-      CommandBody: parsed.content,
+      RawBody: contentOf(parsed),
+      CommandBody: command?.text ?? parsed.content,
       From: feishuFrom,
       To: feishuTo,
-      SessionKey: route.sessionKey,
+      SessionKey: sessionKey,
+      MessageThreadId: threadRootId,
       AccountId: route.accountId,
       ChatType: isGroup ? "group" : "direct",
       GroupSubject: isGroup ? parsed.chatId : undefined,
+      GroupSystemPrompt: chatSettings.systemPrompt,
       SenderName: senderLabel,
       SenderId: parsed.senderOpenId,
       Provider: "feishu" as const,
@@ -503,16 +1254,17 @@ async function dispatchToAgent(params: DispatchParams): Promise<void> {
       MessageSid: parsed.messageId,
       Timestamp: Date.now(),
       WasMentioned: parsed.mentionedBot,
-      CommandAuthorized: true,
+      // Messages without a command are checked against the agent commands policy
+      CommandAuthorized: isCommandAuthorized(feishuCfg, command?.name ?? "*", parsed),
       OriginatingChannel: "feishu" as const,
       OriginatingTo: feishuTo,
       // Media fields (following Telegram pattern)
       MediaPath: mediaInfo?.path,
       MediaType: mediaInfo?.contentType,
       MediaUrl: mediaInfo?.path,
-      MediaPaths: mediaInfo ? [mediaInfo.path] : undefined,
-      MediaUrls: mediaInfo ? [mediaInfo.path] : undefined,
-      MediaTypes: mediaInfo ? [mediaInfo.contentType] : undefined,
+      MediaPaths: mediaList.length > 0 ? mediaList.map((m) => m.path) : undefined,
+      MediaUrls: mediaList.length > 0 ? mediaList.map((m) => m.path) : undefined,
+      MediaTypes: mediaList.length > 0 ? mediaList.map((m) => m.contentType) : undefined,
     });
 
     // In auto-reply mode, don't set replyToMessageId (no typing indicator, no reply style)
@@ -520,26 +1272,36 @@ async function dispatchToAgent(params: DispatchParams): Promise<void> {
       cfg,
       agentId: route.agentId,
       runtime: runtime as RuntimeEnv,
+      accountId,
       chatId: parsed.chatId,
       replyToMessageId: isAutoReply ? undefined : parsed.messageId,
+      threadRootId,
+      previousReplies,
+      onReplySent: replyTracker
+        ? (reply) => replyTracker.addReply(parsed.messageId, reply)
+        : undefined,
+      abortSignal,
     });
 
-    log(`Dispatching to agent (session=${route.sessionKey}${isAutoReply ? ", autoReply=true" : ""})`);
+    if (abortSignal?.aborted) {
+      log(`Message ${parsed.messageId} was recalled, skipping dispatch`);
+      return;
+    }
+    log(`Dispatching to agent (session=${sessionKey}${isAutoReply ? ", autoReply=true" : ""})`);
 
     const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
       ctx: ctxPayload,
       cfg,
       dispatcher,
-      replyOptions,
+      replyOptions: { ...replyOptions, abortSignal, skillFilter: chatSettings.skills },
     });
 
     markDispatchIdle();
 
-    const historyKey = isGroup ? parsed.chatId : undefined;
-    if (isGroup && historyKey && chatHistories) {
+    if (chatHistories) {
       clearHistoryEntriesIfEnabled({
         historyMap: chatHistories,
-        historyKey,
+        historyKey: getConversationKey(parsed),
         limit: historyLimit,
       });
     }
@@ -0,0 +1,136 @@
+/**
+ * Chat history backfill.
+ * Pending history lives in memory, so after a restart the agent would only
+ * see the newest message. The first message in a chat fetches the messages
+ * before it from Feishu (listMessages) and adds them to the pending history
+ * (the gateway does this once per chat and run).
+ */
+
+import type { HistoryEntry } from "openclaw/plugin-sdk";
+import type { Config } from "../config/schema.js";
+import type { HistoryMessage } from "../types/index.js";
+import { listMessages } from "../api/messages.js";
+import { getUserByOpenId } from "../api/directory.js";
+import { parsePost } from "./post.js";
+
+// Constants
+
+/** Largest page the message list API returns */
+const MAX_PAGE_SIZE = 50;
+/** Stop paging after this many requests (e.g. when skipped messages fill the pages) */
+const MAX_PAGES = 5;
+
+// Types
+
+export interface BackfillParams {
+  chatId: string;
+  /** The message being handled; it and anything newer are skipped */
+  messageId: string;
+  createTime?: number;
+  /** Most entries to fetch */
+  limit: number;
+  /** Label for the bot's own messages (default: "Bot") */
+  botName?: string;
+  /** Leave out messages sent by bots (apps) */
+  skipBotMessages?: boolean;
+}
+
+// Formatting
+
+/**
+ * Text of a listed message: text as is, posts as Markdown, other types as a
+ * placeholder.
+ */
+export function formatHistoryContent(message: HistoryMessage): string {
+  if (message.contentType === "text") return message.content;
+  if (message.contentType === "post") {
+    try {
+      const post = parsePost(JSON.parse(message.content));
+      if (post) return post.markdown;
+    } catch {
+      // Fall through to the placeholder
+    }
+  }
+  return `[${message.contentType}]`;
+}
+
+// Backfill
+
+/**
+ * Fetch the messages before the current one as history entries, oldest first.
+ * Deleted messages are left out, and bot messages with `skipBotMessages`.
+ * Returns an empty list if the chat cannot be read.
+ */
+export async function fetchHistoryEntries(
+  config: Config,
+  params: BackfillParams
+): Promise<HistoryEntry[]> {
+  if (params.limit <= 0) return [];
+
+  const messages: HistoryMessage[] = [];
+  let pageToken: string | undefined;
+  for (let page = 0; page < MAX_PAGES && messages.length < params.limit; page++) {
+    // Newest first: one extra for the current message
+    const result = await listMessages(config, {
+      chatId: params.chatId,
+      pageSize: Math.min(params.limit - messages.length + 1, MAX_PAGE_SIZE),
+      pageToken,
+    });
+    if (!result) break;
+
+    for (const message of result.messages) {
+      const newer =
+        params.createTime !== undefined && (message.createTime ?? 0) > params.createTime;
+      if (message.messageId === params.messageId || message.deleted || newer) continue;
+      if (params.skipBotMessages && message.senderType === "app") continue;
+      if (messages.length < params.limit) messages.push(message);
+    }
+    if (!result.hasMore || !result.pageToken) break;
+    pageToken = result.pageToken;
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const message of messages.reverse()) {
+    entries.push({
+      sender: await senderLabel(config, message, params.botName),
+      body: formatHistoryContent(message),
+      timestamp: message.createTime ?? Date.now(),
+      messageId: message.messageId,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Add the messages before the current one to the pending history of a
+ * conversation, ahead of entries recorded since. Keeps at most `limit` entries.
+ *
+ * @returns Number of entries added
+ */
+export async function backfillHistory(
+  config: Config,
+  chatHistories: Map<string, HistoryEntry[]>,
+  historyKey: string,
+  params: BackfillParams
+): Promise<number> {
+  const fetched = await fetchHistoryEntries(config, params);
+  if (fetched.length === 0) return 0;
+
+  const existing = chatHistories.get(historyKey) ?? [];
+  const known = new Set(existing.map((entry) => entry.messageId));
+  const added = fetched.filter((entry) => !known.has(entry.messageId));
+  chatHistories.set(historyKey, [...added, ...existing].slice(-params.limit));
+  return added.length;
+}
+
+async function senderLabel(
+  config: Config,
+  message: HistoryMessage,
+  botName: string | undefined
+): Promise<string> {
+  if (message.senderType === "app") return botName ?? "Bot";
+  const openId = message.senderOpenId;
+  if (!openId) return message.senderId ?? "unknown";
+  const user = await getUserByOpenId(config, openId).catch(() => null);
+  return user?.name ?? openId;
+}
@@ -0,0 +1,288 @@
+/**
+ * Outbound Markdown rendering.
+ * Agent replies are Markdown; Feishu text messages show it raw. Depending on
+ * `markdown.mode` the text is rendered to a native post (or a markdown card
+ * when it contains tables), sent verbatim, or stripped to plain text.
+ */
+
+import type { Config } from "../config/schema.js";
+import type { SendResult, SendTextParams } from "../types/index.js";
+import {
+  editMessage,
+  editPostMessage,
+  sendCardMessage,
+  sendPostMessage,
+  sendTextMessage,
+  updateCard,
+} from "../api/messages.js";
+import { formatMentionsForFeishu } from "./parser.js";
+
+// Types
+
+export interface PostElement {
+  tag: string;
+  [key: string]: unknown;
+}
+
+/** Post content in the send format: { zh_cn: { content: paragraphs } } */
+export interface PostContent extends Record<string, unknown> {
+  zh_cn: { title?: string; content: PostElement[][] };
+}
+
+// Constants
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const HR_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BULLET_PATTERN = /^(\s*)[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^(\s*)(\d+)[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/;
+
+/**
+ * Inline syntax, in priority order: code, mention, link, bold, strikethrough, italic.
+ * Underscore emphasis only applies at word boundaries (snake_case stays as is).
+ */
+const INLINE_PATTERN = new RegExp(
+  [
+    /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.source,
+    /<at user_id="([^"]+)">([^<]*)<\/at>/.source,
+    /\[([^\]]+)\]\(([^)\s]+)\)/.source,
+    /\*\*(?=\S)([\s\S]+?)\*\*/.source,
+    /(?<![\w])__(?=\S)([\s\S]+?)__(?![\w])/.source,
+    /~~(?=\S)([\s\S]+?)~~/.source,
+    /\*(?=[^\s*])([^*]+?)\*/.source,
+    /(?<![\w])_(?=[^\s_])([^_]+?)_(?![\w])/.source,
+  ].join("|"),
+  "g"
+);
+
+// Inline Rendering
+
+function textElement(text: string, style: string[]): PostElement {
+  return style.length > 0 ? { tag: "text", text, style } : { tag: "text", text };
+}
+
+function renderInline(text: string, style: string[] = []): PostElement[] {
+  const elements: PostElement[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) elements.push(textElement(text.slice(last, index), style));
+    last = index + match[0].length;
+
+    const [, , code, atId, atName, linkText, href, bold, boldAlt, strike, italic, italicAlt] =
+      match;
+    if (code !== undefined) {
+      elements.push(textElement(code, [...style, "codeInline"]));
+    } else if (atId !== undefined) {
+      elements.push({ tag: "at", user_id: atId, user_name: atName ?? "" });
+    } else if (linkText !== undefined && href !== undefined) {
+      const label = renderInline(linkText)
+        .map((el) => String(el.text ?? ""))
+        .join("");
+      elements.push(
+        style.length > 0 ? { tag: "a", text: label, href, style } : { tag: "a", text: label, href }
+      );
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      elements.push(...renderInline(bold ?? boldAlt ?? "", [...style, "bold"]));
+    } else if (strike !== undefined) {
+      elements.push(...renderInline(strike, [...style, "lineThrough"]));
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      elements.push(...renderInline(italic ?? italicAlt ?? "", [...style, "italic"]));
+    }
+  }
+
+  if (last < text.length) elements.push(textElement(text.slice(last), style));
+  return elements;
+}
+
+// Block Rendering
+
+/**
+ * Render Markdown to post content.
+ * Headings become bold lines and lists keep their markers, since posts have
+ * no heading or list elements.
+ */
+export function renderMarkdownToPost(markdown: string): PostContent {
+  const paragraphs: PostElement[][] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i] ?? "").trim().startsWith(fence[1] ?? "```")) {
+        code.push(lines[i] ?? "");
+        i++;
+      }
+      paragraphs.push([
+        { tag: "code_block", language: fence[2] || "plaintext", text: code.join("\n") },
+      ]);
+      continue;
+    }
+
+    if (!line.trim()) {
+      // Collapse runs of blank lines into one empty paragraph
+      if (paragraphs.length > 0 && paragraphs.at(-1)?.length !== 0) paragraphs.push([]);
+      continue;
+    }
+
+    if (HR_PATTERN.test(line)) {
+      paragraphs.push([{ tag: "hr" }]);
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      paragraphs.push(renderInline(heading[1] ?? "", ["bold"]));
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet) {
+      const indent = " ".repeat(Math.floor((bullet[1] ?? "").length / 2) * 2);
+      paragraphs.push([textElement(`${indent}• `, []), ...renderInline(bullet[2] ?? "")]);
+      continue;
+    }
+
+    const ordered = ORDERED_PATTERN.exec(line);
+    if (ordered) {
+      const indent = " ".repeat(Math.floor((ordered[1] ?? "").length / 2) * 2);
+      paragraphs.push([
+        textElement(`${indent}${ordered[2]}. `, []),
+        ...renderInline(ordered[3] ?? ""),
+      ]);
+      continue;
+    }
+
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      paragraphs.push([textElement("┃ ", []), ...renderInline(quote[1] ?? "", ["italic"])]);
+      continue;
+    }
+
+    paragraphs.push(renderInline(line));
+  }
+
+  while (paragraphs.at(-1)?.length === 0) paragraphs.pop();
+  return { zh_cn: { content: paragraphs } };
+}
+
+/**
+ * Strip Markdown syntax, keeping the text, link targets and <at> mentions.
+ */
+export function stripMarkdown(markdown: string): string {
+  const paragraphs = renderMarkdownToPost(markdown).zh_cn.content;
+  return paragraphs
+    .map((paragraph) =>
+      paragraph
+        .map((el) => {
+          const text = String(el.text ?? "");
+          switch (el.tag) {
+            case "a":
+              return text === el.href ? text : `${text} (${String(el.href)})`;
+            case "at":
+              return `<at user_id="${String(el.user_id)}">${String(el.user_name)}</at>`;
+            case "hr":
+              return "——————";
+            default:
+              return text;
+          }
+        })
+        .join("")
+    )
+    .join("\n");
+}
+
+/**
+ * Whether the text needs a markdown card (posts cannot show tables).
+ */
+export function needsMarkdownCard(markdown: string): boolean {
+  const lines = markdown.split("\n");
+  return lines.some(
+    (line, i) => i > 0 && TABLE_SEPARATOR_PATTERN.test(line) && (lines[i - 1] ?? "").includes("|")
+  );
+}
+
+/**
+ * Build a card (JSON 2.0) with a single markdown element.
+ */
+export function buildMarkdownCard(markdown: string): Record<string, unknown> {
+  return {
+    schema: "2.0",
+    body: { elements: [{ tag: "markdown", content: markdown }] },
+  };
+}
+
+// Sending
+
+/**
+ * Send Markdown text according to `markdown.mode`:
+ * - native (default): post message, or a markdown card when the text has tables
+ * - escape: plain text message with the Markdown shown as typed
+ * - strip: plain text message with the Markdown syntax removed
+ *
+ * @throws Error if target is invalid or send fails
+ */
+export async function sendMarkdownMessage(
+  config: Config,
+  params: SendTextParams
+): Promise<SendResult> {
+  const mode = config.markdown?.mode ?? "native";
+  const { text: raw, ...target } = params;
+  // Resolve @[Name](open_id) first so it is not taken for a link
+  const text = formatMentionsForFeishu(raw);
+
+  if (mode === "escape") {
+    return { ...(await sendTextMessage(config, params)), msgType: "text" };
+  }
+  if (mode === "strip") {
+    const result = await sendTextMessage(config, { ...target, text: stripMarkdown(text) });
+    return { ...result, msgType: "text" };
+  }
+
+  if (needsMarkdownCard(text)) {
+    const result = await sendCardMessage(config, { ...target, card: buildMarkdownCard(text) });
+    return { ...result, msgType: "interactive" };
+  }
+  const result = await sendPostMessage(config, { ...target, post: renderMarkdownToPost(text) });
+  return { ...result, msgType: "post" };
+}
+
+/**
+ * Replace the content of a Markdown reply sent earlier, rendered the same
+ * way as sendMarkdownMessage. Returns false if the message type cannot show
+ * the new text (e.g. a post when the text now needs a table card).
+ *
+ * @throws Error if the edit fails
+ */
+export async function editMarkdownMessage(
+  config: Config,
+  messageId: string,
+  msgType: string,
+  markdown: string
+): Promise<boolean> {
+  const mode = config.markdown?.mode ?? "native";
+  const text = formatMentionsForFeishu(markdown);
+
+  if (msgType === "interactive") {
+    await updateCard(config, messageId, buildMarkdownCard(text));
+    return true;
+  }
+  if (mode === "escape" || mode === "strip") {
+    if (msgType !== "text") return false;
+    await editMessage(config, {
+      messageId,
+      text: mode === "strip" ? stripMarkdown(text) : markdown,
+    });
+    return true;
+  }
+  if (msgType !== "post" || needsMarkdownCard(text)) return false;
+  await editPostMessage(config, messageId, renderMarkdownToPost(text));
+  return true;
+}
@@ -0,0 +1,345 @@
+/**
+ * Content-addressed cache for downloaded inbound media.
+ * Files are stored once per content hash and indexed by Feishu file_key in a
+ * manifest, so a key seen again is served from disk and the agent can look
+ * up files received earlier. Unused files expire after `mediaCache.ttlHours`
+ * and the least recently used go first when over `mediaCache.maxSizeMb`.
+ * Entries remember the account and chats they were received in, so lookups
+ * can be limited to one conversation.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { Config } from "../config/schema.js";
+import type { ChatScope } from "./sessions.js";
+
+// Constants
+
+const FILE_FORMAT_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+const DEFAULT_TTL_HOURS = 24;
+const DEFAULT_MAX_SIZE_MB = 500;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+// Types
+
+/** A cached file, indexed by the file_key it was downloaded with */
+export interface MediaCacheEntry {
+  fileKey: string;
+  /** Message the file was received in */
+  messageId: string;
+  /** Account that downloaded the file */
+  accountId?: string;
+  /** Chats the file was received in */
+  chatIds?: string[];
+  path: string;
+  sha256: string;
+  contentType: string;
+  size: number;
+  /** Original file name, if the message carried one */
+  fileName?: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface MediaCacheOptions {
+  /** Unused entries older than this are deleted */
+  ttlMs: number;
+  /** Total size limit in bytes */
+  maxBytes: number;
+}
+
+export interface MediaCacheStoreOptions {
+  /** Delay before a lookup's last-used time is written to the manifest (default: 1s) */
+  flushDelayMs?: number;
+}
+
+export interface PutMediaParams {
+  messageId: string;
+  accountId?: string;
+  chatId?: string;
+  contentType: string;
+  /** File extension including the dot (may be empty) */
+  ext: string;
+  fileName?: string;
+}
+
+interface ManifestData {
+  version: number;
+  entries: Record<string, MediaCacheEntry>;
+}
+
+// Cache
+
+export class MediaCache {
+  readonly dir: string;
+  private options: MediaCacheOptions;
+  private readonly entries = new Map<string, MediaCacheEntry>();
+  private readonly flushDelayMs: number;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, options: MediaCacheOptions, storeOptions: MediaCacheStoreOptions = {}) {
+    this.dir = dir;
+    this.options = options;
+    this.flushDelayMs = storeOptions.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+    this.load();
+  }
+
+  get manifestPath(): string {
+    return path.join(this.dir, MANIFEST_FILE);
+  }
+
+  /** Current expiry and size settings */
+  get settings(): MediaCacheOptions {
+    return { ...this.options };
+  }
+
+  /** Apply new expiry and size settings (used from the next prune) */
+  configure(options: MediaCacheOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * Look up a cached file by file_key and mark it as used.
+   * Returns undefined if unknown, not received in `scope`, or the file has
+   * been removed from disk.
+   * The manifest is written after a short debounce, not on every lookup.
+   */
+  async get(fileKey: string, scope?: ChatScope): Promise<MediaCacheEntry | undefined> {
+    const entry = this.entries.get(fileKey);
+    if (!entry || (scope && !isInScope(entry, scope))) return undefined;
+    try {
+      await fs.promises.access(entry.path);
+    } catch {
+      this.entries.delete(fileKey);
+      this.scheduleFlush();
+      return undefined;
+    }
+    entry.lastUsedAt = Date.now();
+    this.scheduleFlush();
+    return entry;
+  }
+
+  /** Cached entries (only those received in `scope`), most recently used first */
+  list(scope?: ChatScope): MediaCacheEntry[] {
+    return [...this.entries.values()]
+      .filter((entry) => !scope || isInScope(entry, scope))
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  /**
+   * Store a downloaded file under its content hash and index it by file_key.
+   * Identical content received under another key shares the same file, and
+   * a key received again in another chat of the same account is shared with
+   * that chat.
+   */
+  async put(fileKey: string, buffer: Buffer, params: PutMediaParams): Promise<MediaCacheEntry> {
+    const sha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+    const filePath = path.join(this.dir, `${sha256}${params.ext}`);
+
+    const now = Date.now();
+    const previous = this.entries.get(fileKey);
+    const chatIds = previous?.accountId === params.accountId ? [...(previous?.chatIds ?? [])] : [];
+    if (params.chatId && !chatIds.includes(params.chatId)) chatIds.push(params.chatId);
+    const entry: MediaCacheEntry = {
+      fileKey,
+      messageId: params.messageId,
+      accountId: params.accountId,
+      chatIds,
+      path: filePath,
+      sha256,
+      contentType: params.contentType,
+      size: buffer.length,
+      fileName: params.fileName,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    // Reference the file before it appears so a concurrent prune keeps it
+    this.entries.set(fileKey, entry);
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      try {
+        await fs.promises.access(filePath);
+      } catch {
+        const tmpPath = `${filePath}.${crypto.randomUUID().slice(0, 8)}.tmp`;
+        await fs.promises.writeFile(tmpPath, buffer);
+        await fs.promises.rename(tmpPath, filePath);
+      }
+    } catch (err) {
+      if (this.entries.get(fileKey) === entry) {
+        if (previous) this.entries.set(fileKey, previous);
+        else this.entries.delete(fileKey);
+      }
+      throw err;
+    }
+
+    if (this.totalBytes() > this.options.maxBytes) await this.prune(now);
+    else await this.save();
+    return entry;
+  }
+
+  /**
+   * Delete expired entries, then the least recently used ones while over the
+   * size limit. Files are removed once no entry references them.
+   *
+   * @returns Number of entries removed
+   */
+  async prune(now: number = Date.now()): Promise<number> {
+    const before = this.entries.size;
+    for (const [key, entry] of this.entries) {
+      if (now - entry.lastUsedAt > this.options.ttlMs) this.entries.delete(key);
+    }
+    for (const entry of [...this.entries.values()].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (this.totalBytes() <= this.options.maxBytes) break;
+      this.entries.delete(entry.fileKey);
+    }
+
+    const removed = before - this.entries.size;
+    if (removed === 0) return 0;
+    await this.removeUnreferencedFiles();
+    await this.save();
+    return removed;
+  }
+
+  /** Size of the cached files (shared content counted once) */
+  totalBytes(): number {
+    const sizes = new Map<string, number>();
+    for (const entry of this.entries.values()) sizes.set(entry.path, entry.size);
+    let total = 0;
+    for (const size of sizes.values()) total += size;
+    return total;
+  }
+
+  private isReferenced(filePath: string): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.path === filePath) return true;
+    }
+    return false;
+  }
+
+  private async removeUnreferencedFiles(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch {
+      return;
+    }
+    // Only touch files named by content hash; mediaDir may hold other files
+    const cached = names.filter((name) => /^[0-9a-f]{64}(\.[\w-]+)?$/.test(name));
+    for (const name of cached) {
+      const filePath = path.join(this.dir, name);
+      // Checked per file: put() may reference new files while this runs
+      if (!this.isReferenced(filePath)) await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  /** Write the manifest to disk now */
+  async flush(): Promise<void> {
+    return this.save();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.save().catch(() => undefined);
+    }, this.flushDelayMs);
+    this.flushTimer.unref?.();
+  }
+
+  private async save(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const data: ManifestData = {
+      version: FILE_FORMAT_VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+    const write = async () => {
+      const tmpPath = `${this.manifestPath}.tmp`;
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2));
+      await fs.promises.rename(tmpPath, this.manifestPath);
+    };
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.manifestPath, "utf-8");
+    } catch {
+      return; // No previous manifest
+    }
+    try {
+      const data = JSON.parse(raw) as Partial<ManifestData>;
+      for (const [key, entry] of Object.entries(data.entries ?? {})) {
+        if (typeof entry?.path === "string" && typeof entry.lastUsedAt === "number") {
+          this.entries.set(key, { ...entry, fileKey: key });
+        }
+      }
+    } catch {
+      // Corrupt manifest: start fresh, it is rewritten on the next change
+    }
+  }
+}
+
+function isInScope(entry: MediaCacheEntry, scope: ChatScope): boolean {
+  return entry.accountId === scope.accountId && (entry.chatIds ?? []).includes(scope.chatId);
+}
+
+// Shared Caches
+
+const caches = new Map<string, MediaCache>();
+
+/**
+ * Resolve the media directory: `mediaDir` (with ~ expanded) or a folder in
+ * the system temp directory.
+ */
+export function resolveMediaDir(config: Config | undefined): string {
+  const dir = config?.mediaDir;
+  if (dir) return dir.startsWith("~") ? dir.replace("~", os.homedir()) : dir;
+  return path.join(os.tmpdir(), "openclaw-feishu-media");
+}
+
+/**
+ * Resolve the expiry and size settings from `mediaCache`.
+ */
+export function resolveMediaCacheOptions(config: Config | undefined): MediaCacheOptions {
+  const ttlHours = config?.mediaCache?.ttlHours ?? DEFAULT_TTL_HOURS;
+  const maxSizeMb = config?.mediaCache?.maxSizeMb ?? DEFAULT_MAX_SIZE_MB;
+  return { ttlMs: ttlHours * 60 * 60 * 1000, maxBytes: maxSizeMb * 1024 * 1024 };
+}
+
+/**
+ * Get the cache for the configured media directory.
+ * Created on first use, pruned then and every hour after. One cache serves
+ * each directory, so its settings follow the latest config that uses it; the
+ * gateway refuses to start accounts that share a directory with different
+ * settings.
+ */
+export function getMediaCache(config: Config | undefined): MediaCache {
+  const dir = resolveMediaDir(config);
+  const options = resolveMediaCacheOptions(config);
+  const existing = caches.get(dir);
+  if (existing) {
+    existing.configure(options);
+    return existing;
+  }
+
+  const cache = new MediaCache(dir, options);
+  caches.set(dir, cache);
+
+  const prune = () => void cache.prune().catch(() => undefined);
+  prune();
+  setInterval(prune, CLEANUP_INTERVAL_MS).unref?.();
+  return cache;
+}
@@ -1,28 +1,19 @@
 /** Message event parsing utilities */
 
-import type { MessageReceivedEvent, MessageMention, ParsedMessage, MentionInfo } from "../types/index.js";
+import type {
+  MessageReceivedEvent,
+  CardActionEvent,
+  MessageMention,
+  ParsedMessage,
+  MentionInfo,
+  ChatType,
+  MessageAttachment,
+  ForwardedMessage,
+} from "../types/index.js";
+import { parsePost } from "./post.js";
 
 type Obj = Record<string, unknown>;
 
-function parsePostElements(content: unknown[]): string[] {
-  const parts: string[] = [];
-  for (const para of content) {
-    if (!Array.isArray(para)) continue;
-    const pp: string[] = [];
-    for (const el of para) {
-      if (typeof el !== "object" || el === null || !("tag" in el)) continue;
-      const e = el as Obj;
-      if (e.tag === "text" && e.text) pp.push(String(e.text));
-      else if (e.tag === "img" && e.image_key) pp.push(`[图片: ${e.image_key}]`);
-      else if (e.tag === "a" && e.text) pp.push(`${e.text}(${e.href ?? ""})`);
-      else if (e.tag === "at" && e.user_id) pp.push(`@${e.user_name ?? "用户"}`);
-      else if (e.tag === "emotion" && e.emoji_type) pp.push(`[${e.emoji_type}]`);
-    }
-    if (pp.length) parts.push(pp.join(""));
-  }
-  return parts;
-}
-
 /** Parse message content based on message type */
 export function parseMessageContent(content: string, messageType: string): string {
   try {
@@ -41,6 +32,7 @@ export function parseMessageContent(content: string, messageType: string): strin
       case "location": return obj.name ? `[位置: ${obj.name}]` : "[位置分享]";
       case "system": return "[系统消息]";
       case "video_chat": return "[视频会议]";
+      case "merge_forward": return "[合并转发消息]";
       case "media":
         if (obj.file_key) return `[媒体: ${obj.file_name ?? "媒体文件"} (${obj.file_key})]`;
         if (obj.image_key) return `[媒体图片: ${obj.image_key}]`;
@@ -49,11 +41,7 @@ export function parseMessageContent(content: string, messageType: string): strin
         const h = obj.header as Obj | undefined, t = h?.title as Obj | undefined;
         return t?.content ? `[卡片: ${t.content}]` : "[交互卡片]";
       case "post":
-        if (Array.isArray(obj.content)) { const parts = parsePostElements(obj.content); if (parts.length) return parts.join("\n"); }
-        const zhCn = obj.zh_cn as Obj | undefined;
-        if (zhCn && Array.isArray(zhCn.content)) { const parts = parsePostElements(zhCn.content as unknown[]); if (parts.length) return (zhCn.title ? `${zhCn.title}\n` : "") + parts.join("\n"); }
-        if (zhCn?.title) return `[富文本: ${zhCn.title}]`;
-        return "[富文本消息]";
+        return parsePost(obj)?.markdown || "[富文本消息]";
       default: return content;
     }
   } catch { return content; }
@@ -159,6 +147,90 @@ function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// Attachments
+
+/**
+ * Collect every downloadable resource in a message: the image/file of media
+ * messages and all images and videos inside a post.
+ */
+export function extractAttachments(
+  messageId: string,
+  messageType: string,
+  content: string
+): MessageAttachment[] {
+  let obj: Obj;
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (typeof parsed !== "object" || parsed === null) return [];
+    obj = parsed as Obj;
+  } catch {
+    return [];
+  }
+
+  if (messageType === "post") {
+    const post = parsePost(obj);
+    if (!post) return [];
+    const toAttachment =
+      (type: MessageAttachment["type"]) =>
+      (fileKey: string): MessageAttachment => ({ messageId, fileKey, type });
+    return [
+      ...post.imageKeys.map(toAttachment("image")),
+      ...post.mediaKeys.map(toAttachment("file")),
+    ];
+  }
+
+  const attachments: MessageAttachment[] = [];
+  if (typeof obj.image_key === "string" && messageType !== "media") {
+    attachments.push({ messageId, fileKey: obj.image_key, type: "image" });
+  }
+  if (typeof obj.file_key === "string" && messageType !== "sticker") {
+    // messageResource uses "file" for files, audio and video; Feishu audio is Opus
+    const fileName =
+      typeof obj.file_name === "string"
+        ? obj.file_name
+        : messageType === "audio"
+          ? "voice.opus"
+          : undefined;
+    attachments.push({ messageId, fileKey: obj.file_key, type: "file", fileName });
+  }
+  return attachments;
+}
+
+// Merged Forward
+
+/**
+ * Render the messages of a merged-forward bundle as a quoted transcript.
+ * Nested bundles are quoted one level deeper.
+ */
+export function formatForwardedTranscript(
+  bundleId: string,
+  messages: ForwardedMessage[],
+  senderNames: ReadonlyMap<string, string> = new Map()
+): string {
+  const byId = new Map(messages.map((m) => [m.messageId, m]));
+  const depthOf = (message: ForwardedMessage): number => {
+    let depth = 1;
+    let parent = message.upperMessageId;
+    while (parent && parent !== bundleId && depth < 10) {
+      depth++;
+      parent = byId.get(parent)?.upperMessageId;
+    }
+    return depth;
+  };
+
+  const lines = ["[合并转发消息]"];
+  for (const message of messages) {
+    const quote = ">".repeat(depthOf(message));
+    const sender = message.senderId
+      ? (senderNames.get(message.senderId) ?? message.senderId)
+      : "未知用户";
+    const body = parseMessageContent(message.content, message.msgType);
+    const [first = "", ...rest] = body.split("\n");
+    lines.push(`${quote} ${sender}: ${first}`, ...rest.map((line) => `${quote} ${line}`));
+  }
+  return lines.join("\n");
+}
+
 // Event Parsing
 
 /**
@@ -173,81 +245,10 @@ export function parseMessageEvent(event: MessageReceivedEvent, botOpenId?: strin
   const content = stripMentions(rawContent, message.mentions, botOpenId);
   const mentions = extractMentions(message.mentions, botOpenId);
 
-  // Extract media keys from message content
-  let imageKey: string | undefined;
-  const imageKeys: string[] = [];
-  let fileKey: string | undefined;
-  let fileName: string | undefined;
-
-  try {
-    const parsed: unknown = JSON.parse(message.content);
-    if (typeof parsed === "object" && parsed !== null) {
-      const obj = parsed as Record<string, unknown>;
-      
-      // Direct image message
-      if ("image_key" in obj && typeof obj.image_key === "string") {
-        imageKey = obj.image_key;
-        imageKeys.push(obj.image_key);
-      }
-      
-      // File/media message
-      if ("file_key" in obj && typeof obj.file_key === "string") {
-        fileKey = obj.file_key;
-      }
-      if ("file_name" in obj && typeof obj.file_name === "string") {
-        fileName = obj.file_name;
-      }
-      
-      // Rich text (post) message - extract all images
-      if ("content" in obj && Array.isArray(obj.content)) {
-        for (const paragraph of obj.content) {
-          if (Array.isArray(paragraph)) {
-            for (const element of paragraph) {
-              if (
-                typeof element === "object" &&
-                element !== null &&
-                "tag" in element &&
-                (element as Record<string, unknown>).tag === "img" &&
-                "image_key" in element &&
-                typeof (element as Record<string, unknown>).image_key === "string"
-              ) {
-                const key = (element as Record<string, unknown>).image_key as string;
-                imageKeys.push(key);
-                if (!imageKey) imageKey = key; // First image as primary
-              }
-            }
-          }
-        }
-      }
-      
-      // zh_cn content structure (alternative format)
-      if ("zh_cn" in obj && typeof obj.zh_cn === "object" && obj.zh_cn !== null) {
-        const zhCn = obj.zh_cn as Record<string, unknown>;
-        if ("content" in zhCn && Array.isArray(zhCn.content)) {
-          for (const paragraph of zhCn.content as unknown[]) {
-            if (Array.isArray(paragraph)) {
-              for (const element of paragraph) {
-                if (
-                  typeof element === "object" &&
-                  element !== null &&
-                  "tag" in element &&
-                  (element as Record<string, unknown>).tag === "img" &&
-                  "image_key" in element &&
-                  typeof (element as Record<string, unknown>).image_key === "string"
-                ) {
-                  const key = (element as Record<string, unknown>).image_key as string;
-                  imageKeys.push(key);
-                  if (!imageKey) imageKey = key;
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-  } catch {
-    // Keep undefined if parsing fails
-  }
+  // Downloadable resources; the first image/file stay available as imageKey/fileKey
+  const attachments = extractAttachments(message.message_id, message.message_type, message.content);
+  const firstImage = attachments.find((a) => a.type === "image");
+  const firstFile = attachments.find((a) => a.type === "file");
 
   return {
     chatId: message.chat_id,
@@ -260,15 +261,78 @@ export function parseMessageEvent(event: MessageReceivedEvent, botOpenId?: strin
     mentionedBot,
     rootId: message.root_id ?? undefined,
     parentId: message.parent_id ?? undefined,
+    threadId: message.thread_id ?? undefined,
     content,
     contentType: message.message_type,
     mentions: mentions.length > 0 ? mentions : undefined,
-    imageKey,
-    fileKey,
-    fileName,
+    imageKey: firstImage?.fileKey,
+    fileKey: firstFile?.fileKey,
+    fileName: firstFile?.fileName,
+    attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
+
+/**
+ * Parse a card action callback into a message for the agent.
+ * The content describes the clicked element, its callback value and any
+ * submitted form/input/option values. Returns null without chat context.
+ */
+export function parseCardActionEvent(
+  event: CardActionEvent,
+  chatType: ChatType
+): ParsedMessage | null {
+  const chatId = event.context?.open_chat_id;
+  const messageId = event.context?.open_message_id;
+  if (!chatId || !messageId) return null;
+
+  const { action, operator } = event;
+  const lines = [`[Card action] ${action.name ?? action.tag} on card ${messageId}`];
+  if (action.value !== undefined) {
+    const value = typeof action.value === "string" ? action.value : JSON.stringify(action.value);
+    lines.push(`value: ${value}`);
+  }
+  if (action.option !== undefined) lines.push(`option: ${action.option}`);
+  if (action.options?.length) lines.push(`options: ${action.options.join(", ")}`);
+  if (action.input_value !== undefined) lines.push(`input: ${action.input_value}`);
+  if (action.checked !== undefined) lines.push(`checked: ${action.checked}`);
+  if (action.form_value) lines.push(`form: ${JSON.stringify(action.form_value)}`);
+
+  return {
+    chatId,
+    messageId,
+    senderId: operator.user_id ?? operator.open_id ?? "",
+    senderOpenId: operator.open_id ?? "",
+    senderUnionId: operator.union_id ?? undefined,
+    senderName: undefined,
+    chatType,
+    // Clicking the bot's card is addressed to the bot
+    mentionedBot: true,
+    content: lines.join("\n"),
+    contentType: "card_action",
   };
 }
 
+// Threads
+
+/**
+ * Root message of the thread a group message belongs to.
+ * Only thread (topic) messages count; a plain quote-reply also carries root_id
+ * but stays in the main conversation. A thread's first message is its own root.
+ */
+export function getThreadRootId(parsed: ParsedMessage): string | undefined {
+  if (parsed.chatType !== "group" || !parsed.threadId) return undefined;
+  return parsed.rootId ?? parsed.messageId;
+}
+
+/**
+ * Key for per-conversation state (history, batching): the chat, or
+ * `<chatId>:thread:<rootId>` for thread messages.
+ */
+export function getConversationKey(parsed: ParsedMessage): string {
+  const rootId = getThreadRootId(parsed);
+  return rootId ? `${parsed.chatId}:thread:${rootId}` : parsed.chatId;
+}
+
 // Outbound Mention Formatting (Legacy Support)
 
 /**
@@ -2,7 +2,7 @@
  * Access policy engine for DM and group messages.
  */
 
-import type { Config, GroupConfig } from "../config/schema.js";
+import type { Config, DmConfig, GroupConfig } from "../config/schema.js";
 
 // Types
 
@@ -95,19 +95,28 @@ export function resolveGroupConfig(
   config: Config,
   groupId: string | null | undefined
 ): GroupConfig | undefined {
-  if (!groupId) return undefined;
+  return lookupById(config.groups, groupId);
+}
 
-  const groups = config.groups ?? {};
-  const trimmed = groupId.trim();
+/**
+ * Look up an entry by chat or user ID: exact key first, then case-insensitive.
+ */
+function lookupById<T>(
+  entries: Record<string, T | undefined> | undefined,
+  id: string | null | undefined
+): T | undefined {
+  if (!id || !entries) return undefined;
+
+  const trimmed = id.trim();
 
   // Direct match
-  const direct = groups[trimmed];
+  const direct = entries[trimmed];
   if (direct) return direct;
 
   // Case-insensitive match
   const lowered = trimmed.toLowerCase();
-  const matchKey = Object.keys(groups).find((key) => key.toLowerCase() === lowered);
-  return matchKey ? groups[matchKey] : undefined;
+  const matchKey = Object.keys(entries).find((key) => key.toLowerCase() === lowered);
+  return matchKey ? entries[matchKey] : undefined;
 }
 
 /**
@@ -152,6 +161,55 @@ export function checkGroupPolicy(
   }
 }
 
+// Chat Settings
+
+export interface ChatSettings {
+  /** Whether the bot answers in this chat */
+  enabled: boolean;
+  /** Extra system prompt for the chat */
+  systemPrompt?: string;
+  /** Skills the agent may use (undefined: all) */
+  skills?: string[];
+}
+
+/**
+ * Resolve DM-specific configuration (keyed by the sender's open_id).
+ */
+export function resolveDmConfig(
+  config: Config,
+  senderId: string | null | undefined
+): DmConfig | undefined {
+  return lookupById(config.dms, senderId);
+}
+
+/**
+ * Resolve the settings of a chat: `groups.<chat_id>` (falling back to
+ * `groups["*"]`) for groups, `dms.<open_id>` (falling back to `dms["*"]`) for DMs.
+ */
+export function resolveChatSettings(
+  config: Config,
+  chatType: "p2p" | "group",
+  chatId: string,
+  senderId: string
+): ChatSettings {
+  if (chatType === "group") {
+    const group = resolveGroupConfig(config, chatId);
+    const wildcard = resolveGroupConfig(config, "*");
+    return {
+      enabled: (group?.enabled ?? wildcard?.enabled) !== false,
+      systemPrompt: group?.systemPrompt ?? wildcard?.systemPrompt,
+      skills: group?.skills ?? wildcard?.skills,
+    };
+  }
+
+  const dm = resolveDmConfig(config, senderId);
+  const wildcard = resolveDmConfig(config, "*");
+  return {
+    enabled: (dm?.enabled ?? wildcard?.enabled) !== false,
+    systemPrompt: dm?.systemPrompt ?? wildcard?.systemPrompt,
+  };
+}
+
 // Mention Policy
 
 /**
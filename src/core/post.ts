@@ -0,0 +1,161 @@
+/**
+ * Rich text (post) message conversion to Markdown.
+ * Keeps text styles, links, code blocks and rules; mentions stay as mention
+ * keys (resolved to <at> tags by stripMentions) and images are collected so
+ * they can be downloaded.
+ */
+
+type Obj = Record<string, unknown>;
+
+// Constants
+
+/** Locales tried in order when a post carries several translations */
+const LOCALE_PRIORITY = ["zh_cn", "en_us", "ja_jp"];
+
+const AT_ALL_IDS = new Set(["all", "all_members"]);
+
+// Types
+
+/** Rendered output line; blocks (code, rules) are set off by blank lines */
+interface Line {
+  text: string;
+  block: boolean;
+}
+
+export interface ParsedPost {
+  title?: string;
+  /** Title (as heading) and body rendered as Markdown */
+  markdown: string;
+  /** image_key of every img element, in order */
+  imageKeys: string[];
+  /** file_key of every media (video) element, in order */
+  mediaKeys: string[];
+}
+
+// Helpers
+
+function isObj(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the post body: received posts are flat `{ title, content }`, sent or
+ * edited posts are keyed by locale (`zh_cn`, `en_us`, `ja_jp`, ...).
+ */
+function unwrapLocale(post: Obj): Obj | undefined {
+  if (Array.isArray(post.content)) return post;
+  for (const locale of LOCALE_PRIORITY) {
+    const body = post[locale];
+    if (isObj(body) && Array.isArray(body.content)) return body;
+  }
+  return Object.values(post).find(
+    (body): body is Obj => isObj(body) && Array.isArray(body.content)
+  );
+}
+
+function applyStyle(text: string, style: unknown): string {
+  if (!text.trim() || !Array.isArray(style) || style.length === 0) return text;
+  let out = text;
+  if (style.includes("codeInline") || style.includes("code")) out = `\`${out}\``;
+  if (style.includes("bold")) out = `**${out}**`;
+  if (style.includes("italic")) out = `*${out}*`;
+  if (style.includes("lineThrough")) out = `~~${out}~~`;
+  if (style.includes("underline")) out = `<u>${out}</u>`;
+  return out;
+}
+
+function renderAt(el: Obj): string {
+  const userId = typeof el.user_id === "string" ? el.user_id : "";
+  const name = typeof el.user_name === "string" && el.user_name ? el.user_name : undefined;
+  if (AT_ALL_IDS.has(userId)) return `<at user_id="all">${name ?? "所有人"}</at>`;
+  // Mention keys (@_user_1) are resolved against the event's mentions later
+  if (userId.startsWith("@_")) return userId;
+  if (userId) return `<at user_id="${userId}">${name ?? userId}</at>`;
+  return name ? `@${name}` : "";
+}
+
+function renderBlock(el: Obj): string | undefined {
+  if (el.tag === "hr") return "---";
+  if (el.tag !== "code_block") return undefined;
+  const code = typeof el.text === "string" ? el.text.replace(/\n$/, "") : "";
+  const language = typeof el.language === "string" ? el.language.toLowerCase() : "";
+  return `\`\`\`${language}\n${code}\n\`\`\``;
+}
+
+function renderInline(el: Obj, post: ParsedPost): string {
+  const text = typeof el.text === "string" ? el.text : "";
+  switch (el.tag) {
+    case "text":
+      return applyStyle(text, el.style);
+    case "a": {
+      const href = typeof el.href === "string" ? el.href : "";
+      const label = text || href;
+      return applyStyle(href ? `[${label}](${href})` : label, el.style);
+    }
+    case "at":
+      return renderAt(el);
+    case "img":
+      if (typeof el.image_key !== "string") return "";
+      post.imageKeys.push(el.image_key);
+      return `![图片](${el.image_key})`;
+    case "media":
+      if (typeof el.file_key !== "string") return "";
+      post.mediaKeys.push(el.file_key);
+      return `[视频: ${el.file_key}]`;
+    case "emotion":
+      return typeof el.emoji_type === "string" ? `[${el.emoji_type}]` : "";
+    default:
+      // md and unknown tags: keep their text
+      return text;
+  }
+}
+
+// Parser
+
+/**
+ * Convert post message content (parsed JSON) to Markdown.
+ * Returns null if the content is not a post.
+ */
+export function parsePost(content: unknown): ParsedPost | null {
+  if (!isObj(content)) return null;
+  const body = unwrapLocale(content);
+  if (!body) return null;
+
+  const title = typeof body.title === "string" && body.title.trim() ? body.title : undefined;
+  const post: ParsedPost = { title, markdown: "", imageKeys: [], mediaKeys: [] };
+  const lines: Line[] = [];
+
+  for (const paragraph of body.content as unknown[]) {
+    if (!Array.isArray(paragraph)) continue;
+    let text = "";
+    let hasBlock = false;
+    for (const el of paragraph.filter(isObj)) {
+      const block = renderBlock(el);
+      if (block === undefined) {
+        text += renderInline(el, post);
+        continue;
+      }
+      if (text.trim()) lines.push({ text, block: false });
+      lines.push({ text: block, block: true });
+      text = "";
+      hasBlock = true;
+    }
+    // Empty paragraphs are blank lines, unless they only held blocks
+    if (text.trim() || !hasBlock) lines.push({ text, block: false });
+  }
+
+  // Blocks get their own blank lines; drop empty paragraphs next to them
+  const kept = lines.filter(
+    (line, i) => line.block || line.text.trim() || !(lines[i - 1]?.block || lines[i + 1]?.block)
+  );
+  const markdown = kept
+    .map((line, i) => {
+      const previous = kept[i - 1];
+      if (!previous) return line.text;
+      return (line.block || previous.block ? "\n\n" : "\n") + line.text;
+    })
+    .join("")
+    .replace(/^\s*\n|\n\s*$/g, "");
+  post.markdown = [title ? `# ${title}` : "", markdown].filter(Boolean).join("\n\n");
+  return post;
+}
@@ -12,10 +12,14 @@ import {
 
 import { getRuntime } from "./runtime.js";
 import { getBotOpenId } from "./gateway.js";
-import { sendCardMessage, sendTextMessage, updateCard } from "../api/messages.js";
+import { recallMessage, sendCardMessage, updateCard } from "../api/messages.js";
 import { addReaction, removeReaction, Emoji } from "../api/reactions.js";
 import { formatMentionsForFeishu } from "./parser.js";
+import { CardKitStream } from "./streaming-card.js";
+import { editMarkdownMessage, sendMarkdownMessage } from "./markdown.js";
+import type { TrackedReply } from "./reply-tracker.js";
 import type { Config } from "../config/schema.js";
+import { mergeAccountConfig } from "../config/schema.js";
 
 // Types
 
@@ -23,8 +27,18 @@ export interface CreateReplyDispatcherParams {
   cfg: OpenClawConfig;
   agentId: string;
   runtime: RuntimeEnv;
+  /** Account the reply is sent from (defaults to the default account) */
+  accountId?: string;
   chatId: string;
   replyToMessageId?: string;
+  /** Root of the thread the conversation is in; replies are posted inside it */
+  threadRootId?: string;
+  /** Earlier replies to an edited message: the first is edited in place, the rest recalled */
+  previousReplies?: TrackedReply[];
+  /** Called with every bot message sent as part of this reply */
+  onReplySent?: (reply: TrackedReply) => void;
+  /** Aborted when the message being answered is recalled; later payloads are dropped */
+  abortSignal?: AbortSignal;
 }
 
 interface TypingIndicatorState {
@@ -36,8 +50,11 @@ interface TypingIndicatorState {
 
 export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
   const core = getRuntime() as PluginRuntime;
-  const { cfg, agentId, chatId, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as Config | undefined;
+  const { cfg, agentId, accountId, chatId, replyToMessageId, threadRootId } = params;
+  // Thread replies always go into the thread, even without a message to reply to
+  const replyTarget = replyToMessageId ?? threadRootId;
+  const replyInThread = threadRootId ? true : undefined;
+  const feishuCfg = mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
 
   const prefixContext = createReplyPrefixContext({
     cfg,
@@ -116,6 +133,19 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
   let streamingUpdateTimer: ReturnType<typeof setTimeout> | null = null;
   let streamingUpdatePromise: Promise<void> | null = null;
 
+  // Native streaming via CardKit; dropped in favor of full-card updates if unavailable
+  let cardKitStream: CardKitStream | null =
+    streamingCardEnabled && streamingCardConfig?.cardkit !== false && safeFeishuCfg
+      ? new CardKitStream(safeFeishuCfg, {
+          to: chatId,
+          replyToMessageId: replyTarget,
+          replyInThread,
+          title: streamingCardTitle,
+          placeholder: streamingCardConfig?.placeholder,
+          footer: streamingCardConfig?.footer,
+        })
+      : null;
+
   const coalesceConfig = safeFeishuCfg?.blockStreamingCoalesce;
   const coalesceEnabled = Boolean(coalesceConfig?.enabled) && !streamingCardEnabled; // Disable coalesce when streaming card is enabled
   const coalesceMinDelayMs = coalesceConfig?.minDelayMs ?? 400;
@@ -125,25 +155,73 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
   let coalesceFirstAt: number | null = null;
   let coalesceFlushPromise: Promise<void> | null = null;
 
+  // Edited message: the first earlier reply is reused, the others are recalled
+  let previousReplies = [...(params.previousReplies ?? [])];
+
+  const recallReplies = async (replies: TrackedReply[]) => {
+    if (!safeFeishuCfg) return;
+    for (const reply of replies) {
+      try {
+        await recallMessage(safeFeishuCfg, reply.messageId);
+      } catch (err) {
+        params.runtime.log?.(`Failed to recall earlier reply ${reply.messageId}: ${String(err)}`);
+      }
+    }
+  };
+
+  /** Take the reply to reuse (if any) and recall the rest */
+  const takePreviousReply = async (): Promise<TrackedReply | undefined> => {
+    const [first, ...rest] = previousReplies;
+    previousReplies = [];
+    await recallReplies(rest);
+    return first;
+  };
+
+  /** Recall earlier replies that were not reused (the edit got a shorter or no answer) */
+  const recallUnusedReplies = () => recallReplies(previousReplies.splice(0));
+
+  /** Edit the earlier reply in place; recall it instead if it cannot show the text */
+  const editPreviousReply = async (previous: TrackedReply, text: string): Promise<boolean> => {
+    if (!safeFeishuCfg) return false;
+    try {
+      if (await editMarkdownMessage(safeFeishuCfg, previous.messageId, previous.msgType, text)) {
+        params.onReplySent?.(previous);
+        return true;
+      }
+    } catch (err) {
+      params.runtime.log?.(`Failed to edit earlier reply ${previous.messageId}: ${String(err)}`);
+    }
+    await recallReplies([previous]);
+    return false;
+  };
+
   const sendTextPayload = async (text: string) => {
     if (!safeFeishuCfg) return;
     const converted = core.channel.text.convertMarkdownTables(text, tableMode);
-    const formattedText = formatMentionsForFeishu(converted, getBotOpenId());
+    const formattedText = formatMentionsForFeishu(converted, getBotOpenId(accountId));
     const chunks = core.channel.text.chunkTextWithMode(formattedText, textChunkLimit, chunkMode);
 
     params.runtime.log?.(`Deliver: sending ${chunks.length} chunks to ${chatId}`);
     for (const chunk of chunks) {
-      await sendTextMessage(safeFeishuCfg, {
+      const previous = await takePreviousReply();
+      if (previous && (await editPreviousReply(previous, chunk))) continue;
+      const result = await sendMarkdownMessage(safeFeishuCfg, {
         to: chatId,
         text: chunk,
-        replyToMessageId,
+        replyToMessageId: replyTarget,
+        replyInThread,
       });
+      params.onReplySent?.({ messageId: result.messageId, msgType: result.msgType ?? "text" });
     }
   };
 
-  const buildStreamingCard = (text: string): Record<string, unknown> => {
+  const formatCardText = (text: string): string => {
     const converted = core.channel.text.convertMarkdownTables(text, tableMode);
-    const formattedText = formatMentionsForFeishu(converted, getBotOpenId());
+    return formatMentionsForFeishu(converted, getBotOpenId(accountId));
+  };
+
+  const buildStreamingCard = (text: string): Record<string, unknown> => {
+    const formattedText = formatCardText(text);
     const content = formattedText.trim() ? formattedText : " ";
     const card: Record<string, unknown> = {
       config: { wide_screen_mode: true },
@@ -164,16 +242,65 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
     return card;
   };
 
+  let cardKitMessageId: string | null = null;
+
+  const isStreamingStarted = () =>
+    cardKitStream ? cardKitStream.started : streamingCardMessageId !== null;
+
+  /**
+   * Run a CardKit operation. Returns false if CardKit is unavailable (the card
+   * could not be created) so the caller falls back to full-card updates.
+   */
+  const tryCardKit = async (op: (stream: CardKitStream) => Promise<void>): Promise<boolean> => {
+    const stream = cardKitStream;
+    if (!stream) return false;
+    try {
+      await op(stream);
+      if (stream.messageId && stream.messageId !== cardKitMessageId) {
+        cardKitMessageId = stream.messageId;
+        params.onReplySent?.({ messageId: stream.messageId, msgType: "interactive" });
+        // CardKit streams into a new card, so earlier replies are all recalled
+        const previous = await takePreviousReply();
+        if (previous) await recallReplies([previous]);
+      }
+      return true;
+    } catch (err) {
+      // Failures after the card was sent are regular update errors
+      if (stream.started) throw err;
+      params.runtime.log?.(
+        `Streaming card: CardKit unavailable, using card updates: ${String(err)}`
+      );
+      cardKitStream = null;
+      return false;
+    }
+  };
+
   const sendStreamingCard = async (text: string) => {
     if (!safeFeishuCfg) return;
+    if (await tryCardKit((stream) => stream.update(formatCardText(text)))) {
+      streamingLastUpdateAt = Date.now();
+      return;
+    }
     const card = buildStreamingCard(text);
+    if (!streamingCardMessageId) {
+      // An earlier card reply to an edited message is updated in place
+      const previous = await takePreviousReply();
+      if (previous?.msgType === "interactive") {
+        streamingCardMessageId = previous.messageId;
+        params.onReplySent?.(previous);
+      } else if (previous) {
+        await recallReplies([previous]);
+      }
+    }
     if (!streamingCardMessageId) {
       const result = await sendCardMessage(safeFeishuCfg, {
         to: chatId,
         card,
-        replyToMessageId,
+        replyToMessageId: replyTarget,
+        replyInThread,
       });
       streamingCardMessageId = result.messageId;
+      params.onReplySent?.({ messageId: result.messageId, msgType: "interactive" });
       streamingLastUpdateAt = Date.now();
       return;
     }
@@ -182,6 +309,41 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
     streamingLastUpdateAt = Date.now();
   };
 
+  /** Final streaming card state (CardKit: full text, streaming off, footer) */
+  const finishStreamingCard = async (text: string) => {
+    if (await tryCardKit((stream) => stream.finish(formatCardText(text)))) return;
+    if (text.trim()) await sendStreamingCard(text);
+  };
+
+  /**
+   * Recall the card of a reply that ended without text (NO_RESPONSE, blank
+   * or recalled message) instead of leaving an empty "Done" card.
+   */
+  const discardStreamingCard = async () => {
+    try {
+      await cardKitStream?.discard();
+    } catch (err) {
+      // Already gone if the recalled message took its replies with it
+      params.runtime.log?.(`Failed to recall empty streaming card: ${String(err)}`);
+    }
+    if (streamingCardMessageId) {
+      await recallReplies([{ messageId: streamingCardMessageId, msgType: "interactive" }]);
+      streamingCardMessageId = null;
+    }
+  };
+
+  /**
+   * Chain streaming card operations so they never run concurrently.
+   * Every sendStreamingCard call must go through here.
+   */
+  const chainStreamingOp = (op: () => Promise<void>): Promise<void> => {
+    const next = (streamingUpdatePromise ?? Promise.resolve())
+      .then(op)
+      .catch((err) => params.runtime.error?.(`Streaming card update failed: ${String(err)}`));
+    streamingUpdatePromise = next;
+    return next;
+  };
+
   /**
    * Throttled streaming card update - ensures smooth typewriter effect
    * - First content: send immediately
@@ -194,13 +356,13 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
     const timeSinceLastUpdate = now - streamingLastUpdateAt;
 
     // First message or enough time has passed - send immediately
-    if (!streamingCardMessageId || timeSinceLastUpdate >= streamingUpdateIntervalMs) {
+    if (!isStreamingStarted() || timeSinceLastUpdate >= streamingUpdateIntervalMs) {
       streamingPendingUpdate = false;
       if (streamingUpdateTimer) {
         clearTimeout(streamingUpdateTimer);
         streamingUpdateTimer = null;
       }
-      await sendStreamingCard(streamingCardBuffer);
+      await chainStreamingOp(() => sendStreamingCard(streamingCardBuffer));
       return;
     }
 
@@ -212,9 +374,7 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
         streamingPendingUpdate = false;
         streamingUpdateTimer = null;
         // Chain the promise to avoid concurrent updates
-        streamingUpdatePromise = (streamingUpdatePromise ?? Promise.resolve())
-          .then(() => sendStreamingCard(streamingCardBuffer))
-          .catch((err) => params.runtime.error?.(`Streaming card update failed: ${String(err)}`));
+        chainStreamingOp(() => sendStreamingCard(streamingCardBuffer));
       }, delay);
     }
   };
@@ -239,7 +399,7 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
 
     params.runtime.log?.(`Deliver: flushing coalesced text (${reason})`);
     if (streamingCardEnabled) {
-      await sendStreamingCard(content);
+      await chainStreamingOp(() => sendStreamingCard(content));
     } else {
       await sendTextPayload(text);
     }
@@ -263,7 +423,16 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
       responsePrefix: prefixContext.responsePrefix,
       responsePrefixContextProvider: prefixContext.responsePrefixContextProvider,
       humanDelay: core.channel.reply.resolveHumanDelayConfig(cfg, agentId),
-      onReplyStart: typingCallbacks.onReplyStart,
+      onReplyStart: async () => {
+        await typingCallbacks.onReplyStart();
+        // Show the "thinking" placeholder card right away (not in auto-reply mode,
+        // where the agent may decide to stay silent)
+        if (cardKitStream && replyToMessageId && !params.abortSignal?.aborted) {
+          chainStreamingOp(async () => {
+            await tryCardKit((stream) => stream.start());
+          });
+        }
+      },
       deliver: async (payload: ReplyPayload) => {
         params.runtime.log?.(`Deliver called: text=${payload.text?.slice(0, 100)}`);
         const text = payload.text ?? "";
@@ -271,6 +440,10 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
           params.runtime.log?.(`Deliver: empty text, skipping`);
           return;
         }
+        if (params.abortSignal?.aborted) {
+          params.runtime.log?.(`Deliver: message was recalled, dropping reply`);
+          return;
+        }
 
         // Check for NO_RESPONSE - agent decided not to reply (auto-reply mode)
         // Support both [NO_RESPONSE] and NO_RESPONSE formats (AI may output either)
@@ -321,17 +494,26 @@ export function createReplyDispatcher(params: CreateReplyDispatcherParams) {
         typingCallbacks.onIdle?.();
       },
       onIdle: () => {
-        // Flush any remaining streaming card content
-        if (streamingCardEnabled && streamingCardBuffer.trim()) {
+        // Flush remaining streaming card content and finalize the card,
+        // or remove the placeholder if nothing was delivered
+        if (streamingCardEnabled) {
           if (streamingUpdateTimer) {
             clearTimeout(streamingUpdateTimer);
             streamingUpdateTimer = null;
           }
           streamingPendingUpdate = false;
-          void sendStreamingCard(streamingCardBuffer);
+          chainStreamingOp(() =>
+            streamingCardBuffer.trim()
+              ? finishStreamingCard(streamingCardBuffer)
+              : discardStreamingCard()
+          );
         }
         if (coalesceEnabled) {
-          void enqueueFlush("idle");
+          void enqueueFlush("idle").then(recallUnusedReplies);
+        } else if (streamingCardEnabled) {
+          chainStreamingOp(recallUnusedReplies);
+        } else {
+          void recallUnusedReplies();
         }
         typingCallbacks.onIdle?.();
       },
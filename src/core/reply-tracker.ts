@@ -0,0 +1,99 @@
+/**
+ * Bot replies per inbound message.
+ * Remembers which messages the agent answered and with which bot messages,
+ * so an edited question can update its answer in place and a recalled one
+ * can take its answer with it (or stop it while still being written).
+ */
+
+import type { ParsedMessage } from "../types/index.js";
+
+// Constants
+
+const DEFAULT_MAX_ENTRIES = 1000;
+/** Feishu only allows editing or recalling messages for a limited time */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Types
+
+/** A message the bot sent in reply */
+export interface TrackedReply {
+  messageId: string;
+  /** Feishu msg_type: text, post or interactive */
+  msgType: string;
+}
+
+/** An inbound message that was dispatched to the agent */
+export interface TrackedMessage {
+  parsed: ParsedMessage;
+  replies: TrackedReply[];
+  /** Aborts the agent run answering the message */
+  abortController: AbortController;
+  trackedAt: number;
+}
+
+// Tracker
+
+export class ReplyTracker {
+  private readonly entries = new Map<string, TrackedMessage>();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+
+  constructor(options: { maxEntries?: number; ttlMs?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /** Start tracking a dispatched message (replaces earlier replies on re-dispatch) */
+  track(parsed: ParsedMessage, now: number = Date.now()): TrackedMessage {
+    const entry: TrackedMessage = {
+      parsed,
+      replies: [],
+      abortController: new AbortController(),
+      trackedAt: now,
+    };
+    this.entries.delete(parsed.messageId);
+    this.entries.set(parsed.messageId, entry);
+    this.prune(now);
+    return entry;
+  }
+
+  /** Record a bot message sent in reply to a tracked message */
+  addReply(messageId: string, reply: TrackedReply): void {
+    this.entries.get(messageId)?.replies.push(reply);
+  }
+
+  get(messageId: string, now: number = Date.now()): TrackedMessage | undefined {
+    const entry = this.entries.get(messageId);
+    if (entry && now - entry.trackedAt > this.ttlMs) {
+      this.entries.delete(messageId);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /** Find the tracked message a bot message was sent in reply to */
+  findByReply(replyMessageId: string, now: number = Date.now()): TrackedMessage | undefined {
+    for (const [messageId, entry] of this.entries) {
+      if (entry.replies.some((reply) => reply.messageId === replyMessageId)) {
+        return this.get(messageId, now);
+      }
+    }
+    return undefined;
+  }
+
+  delete(messageId: string): void {
+    this.entries.delete(messageId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    // Map order is insertion order: oldest entries first
+    for (const [messageId, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && now - entry.trackedAt <= this.ttlMs) break;
+      this.entries.delete(messageId);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Feishu conversation of each agent session.
+ * Tools only learn the session key of the run calling them; the handler
+ * records which account and chat a session belongs to, so tools can keep
+ * to that conversation.
+ */
+
+// Constants
+
+const MAX_SESSIONS = 1000;
+
+// Types
+
+/** Account and chat of a conversation */
+export interface ChatScope {
+  accountId: string;
+  chatId: string;
+}
+
+// Registry
+
+const sessions = new Map<string, ChatScope>();
+
+/** Record the conversation a session was dispatched from (latest wins) */
+export function recordSessionChat(sessionKey: string, scope: ChatScope): void {
+  sessions.delete(sessionKey);
+  sessions.set(sessionKey, scope);
+  // Oldest sessions go first
+  for (const key of sessions.keys()) {
+    if (sessions.size <= MAX_SESSIONS) break;
+    sessions.delete(key);
+  }
+}
+
+/** Conversation of a session, or undefined if none was dispatched since starting */
+export function getSessionChat(sessionKey: string): ChatScope | undefined {
+  return sessions.get(sessionKey);
+}
@@ -0,0 +1,178 @@
+/**
+ * Native streaming card (CardKit, card JSON 2.0).
+ * Sends a "thinking" placeholder, streams the reply text into one markdown
+ * element and finally swaps in the completed card with streaming mode off.
+ * A reply that ends without any text has its placeholder card recalled.
+ */
+
+import type { Config } from "../config/schema.js";
+import {
+  createCardEntity,
+  sendCardEntity,
+  streamCardContent,
+  updateCardEntity,
+} from "../api/cardkit.js";
+import { recallMessage } from "../api/messages.js";
+
+// Constants
+
+export const STREAMING_ELEMENT_ID = "streaming_content";
+export const DEFAULT_STREAMING_PLACEHOLDER = "Thinking…";
+export const DEFAULT_STREAMING_FOOTER = "Done";
+
+const SUMMARY_MAX_CHARS = 50;
+
+// Types
+
+export interface StreamingCardOptions {
+  title?: string;
+  /** Text shown before the first content arrives */
+  placeholder?: string;
+  /** Note shown under the final card (empty string disables it) */
+  footer?: string;
+}
+
+export interface CardKitStreamParams extends StreamingCardOptions {
+  to: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}
+
+// Card Builders
+
+function buildHeader(title?: string): Record<string, unknown> | undefined {
+  if (!title?.trim()) return undefined;
+  return { title: { tag: "plain_text", content: title } };
+}
+
+function summarize(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SUMMARY_MAX_CHARS ? `${flat.slice(0, SUMMARY_MAX_CHARS)}…` : flat;
+}
+
+/**
+ * Build the initial card in streaming mode.
+ */
+export function buildStreamingCardJson(options: StreamingCardOptions): Record<string, unknown> {
+  const placeholder = options.placeholder ?? DEFAULT_STREAMING_PLACEHOLDER;
+  const header = buildHeader(options.title);
+  return {
+    schema: "2.0",
+    config: {
+      streaming_mode: true,
+      summary: { content: placeholder },
+    },
+    ...(header ? { header } : {}),
+    body: {
+      elements: [{ tag: "markdown", element_id: STREAMING_ELEMENT_ID, content: placeholder }],
+    },
+  };
+}
+
+/**
+ * Build the final card: full text, streaming mode off and an optional footer.
+ */
+export function buildFinalCardJson(
+  text: string,
+  options: StreamingCardOptions
+): Record<string, unknown> {
+  const footer = options.footer ?? DEFAULT_STREAMING_FOOTER;
+  const header = buildHeader(options.title);
+  const elements: Record<string, unknown>[] = [
+    { tag: "markdown", element_id: STREAMING_ELEMENT_ID, content: text.trim() ? text : " " },
+  ];
+  if (footer) {
+    elements.push({ tag: "markdown", content: footer, text_size: "notation" });
+  }
+  return {
+    schema: "2.0",
+    config: {
+      streaming_mode: false,
+      summary: { content: summarize(text) },
+    },
+    ...(header ? { header } : {}),
+    body: { elements },
+  };
+}
+
+// Stream
+
+/**
+ * One streaming reply backed by a CardKit card entity.
+ * Operations must not run concurrently; callers serialize them.
+ */
+export class CardKitStream {
+  private readonly config: Config;
+  private readonly params: CardKitStreamParams;
+  private cardId: string | null = null;
+  private sequence = 0;
+  private starting: Promise<void> | null = null;
+  messageId: string | null = null;
+
+  constructor(config: Config, params: CardKitStreamParams) {
+    this.config = config;
+    this.params = params;
+  }
+
+  get started(): boolean {
+    return this.messageId !== null;
+  }
+
+  /**
+   * Create the card entity and send it with the placeholder.
+   *
+   * @throws Error if CardKit is unavailable (caller falls back to full-card updates)
+   */
+  start(): Promise<void> {
+    this.starting ??= this.createAndSend();
+    return this.starting;
+  }
+
+  /** Stream the full text accumulated so far */
+  async update(text: string): Promise<void> {
+    await this.start();
+    if (!this.cardId || !text.trim()) return;
+    await streamCardContent(this.config, {
+      cardId: this.cardId,
+      elementId: STREAMING_ELEMENT_ID,
+      content: text,
+      sequence: ++this.sequence,
+    });
+  }
+
+  /** Replace the card with its final state (ends streaming mode) */
+  async finish(text: string): Promise<void> {
+    await this.start();
+    if (!this.cardId) return;
+    await updateCardEntity(
+      this.config,
+      this.cardId,
+      buildFinalCardJson(text, this.params),
+      ++this.sequence
+    );
+  }
+
+  /**
+   * Recall the card (the reply ended without text). Does nothing if it was
+   * never sent.
+   */
+  async discard(): Promise<void> {
+    await this.starting?.catch(() => undefined);
+    const messageId = this.messageId;
+    if (!messageId) return;
+    await recallMessage(this.config, messageId);
+    this.messageId = null;
+    this.cardId = null;
+  }
+
+  private async createAndSend(): Promise<void> {
+    this.cardId = await createCardEntity(this.config, buildStreamingCardJson(this.params));
+    const result = await sendCardEntity(this.config, {
+      to: this.params.to,
+      cardId: this.cardId,
+      replyToMessageId: this.params.replyToMessageId,
+      replyInThread: this.params.replyInThread,
+    });
+    this.messageId = result.messageId;
+  }
+}
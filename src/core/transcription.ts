@@ -0,0 +1,119 @@
+/**
+ * Voice message transcription.
+ * A TranscriptionProvider turns a downloaded audio file into text that is
+ * injected into the message body. The built-in provider runs a local command
+ * (`transcription.command`, e.g. a whisper binary); integrations can register
+ * their own with setTranscriptionProvider().
+ */
+
+import { execFile } from "node:child_process";
+import type { Config } from "../config/schema.js";
+
+// Constants
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const FILE_PLACEHOLDER = "{file}";
+
+// Types
+
+export interface TranscriptionRequest {
+  /** Local path of the downloaded audio */
+  filePath: string;
+  contentType: string;
+  durationMs?: number;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /** Transcribe the audio; an empty string means nothing was recognized */
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+export interface CommandTranscriptionOptions {
+  command: string;
+  /** Arguments; "{file}" is replaced with the audio path */
+  args?: string[];
+  timeoutMs?: number;
+}
+
+// Command Provider
+
+/**
+ * Runs a local command and uses its stdout as the transcript.
+ * Without "{file}" in args the path is appended as the last argument.
+ */
+export class CommandTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "command";
+  private readonly options: CommandTranscriptionOptions;
+
+  constructor(options: CommandTranscriptionOptions) {
+    this.options = options;
+  }
+
+  transcribe(request: TranscriptionRequest): Promise<string> {
+    const template = this.options.args ?? [FILE_PLACEHOLDER];
+    const args = template.some((arg) => arg.includes(FILE_PLACEHOLDER))
+      ? template.map((arg) => arg.replaceAll(FILE_PLACEHOLDER, request.filePath))
+      : [...template, request.filePath];
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.options.command,
+        args,
+        { timeout: this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS, maxBuffer: 1024 * 1024 },
+        (err, stdout) => {
+          if (err) reject(new Error(`Transcription command failed: ${err.message}`));
+          else resolve(String(stdout).trim());
+        }
+      );
+    });
+  }
+}
+
+// Provider Registry
+
+let customProvider: TranscriptionProvider | null = null;
+
+/**
+ * Register a custom provider; it takes precedence over `transcription.command`.
+ * Pass null to remove it.
+ */
+export function setTranscriptionProvider(provider: TranscriptionProvider | null): void {
+  customProvider = provider;
+}
+
+/**
+ * Provider for an account: the registered one, else the configured command.
+ * Returns null if transcription is disabled or not set up.
+ */
+export function getTranscriptionProvider(config: Config): TranscriptionProvider | null {
+  const settings = config.transcription;
+  if (settings?.enabled === false) return null;
+  if (customProvider) return customProvider;
+  if (!settings?.command) return null;
+  return new CommandTranscriptionProvider({
+    command: settings.command,
+    args: settings.args,
+    timeoutMs: settings.timeoutMs,
+  });
+}
+
+// Formatting
+
+/** Format a duration in ms as m:ss */
+export function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Message body for a voice message: duration and transcript when known.
+ */
+export function formatVoiceMessage(
+  fileKey: string,
+  durationMs: number | undefined,
+  transcript: string | undefined
+): string {
+  const duration = durationMs !== undefined ? ` ${formatDuration(durationMs)}` : "";
+  return transcript ? `[语音消息${duration}] ${transcript}` : `[语音消息${duration}: ${fileKey}]`;
+}
@@ -0,0 +1,24 @@
+/**
+ * Admin trigger - checks if the sender is one of the configured admins.
+ */
+
+import type { Trigger, TriggerContext } from "./index.js";
+import { matchAllowlist } from "../policy.js";
+
+export class AdminTrigger implements Trigger {
+  readonly name = "admin";
+  private readonly admins: (string | number)[];
+
+  /** @param admins Sender open_ids, user_ids or names */
+  constructor(admins: (string | number)[]) {
+    this.admins = admins;
+  }
+
+  check(ctx: TriggerContext): boolean {
+    const { senderOpenId, senderId, senderName } = ctx.parsed;
+    return (
+      matchAllowlist(this.admins, senderOpenId, senderName).allowed ||
+      (senderId !== senderOpenId && matchAllowlist(this.admins, senderId).allowed)
+    );
+  }
+}
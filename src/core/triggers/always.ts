@@ -0,0 +1,15 @@
+/**
+ * Always trigger - every message wakes the agent, as in a DM.
+ */
+
+import type { Trigger } from "./index.js";
+
+export class AlwaysTrigger implements Trigger {
+  readonly name = "always";
+
+  check(): boolean {
+    return true;
+  }
+}
+
+export const alwaysTrigger = new AlwaysTrigger();
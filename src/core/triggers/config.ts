@@ -0,0 +1,63 @@
+/**
+ * Trigger list from the `triggers` settings.
+ * Account-wide settings apply to every group; `groups.<chatId>.triggers`
+ * overrides them field by field.
+ */
+
+import type { Config, TriggersConfig } from "../../config/schema.js";
+import { resolveGroupConfig } from "../policy.js";
+import type { Trigger } from "./index.js";
+import { AdminTrigger } from "./admin.js";
+import { alwaysTrigger } from "./always.js";
+import { KeywordTrigger } from "./keyword.js";
+import { mentionTrigger } from "./mention.js";
+import { mentionAllTrigger } from "./mention-all.js";
+import { questionTrigger } from "./question.js";
+import { ReplyToBotTrigger } from "./reply.js";
+
+export interface TriggerDependencies {
+  /** Whether a message ID belongs to a message the bot sent (for replyToBot) */
+  isBotMessage: (messageId: string) => boolean;
+  /** Look up whether the bot sent a message isBotMessage does not know (for replyToBot) */
+  lookupBotMessage?: (messageId: string) => Promise<boolean>;
+}
+
+/**
+ * Build triggers from settings. Without settings only @mentions trigger.
+ */
+export function createTriggers(
+  settings: TriggersConfig | undefined,
+  deps: TriggerDependencies
+): Trigger[] {
+  const triggers: Trigger[] = [];
+  if (settings?.mention !== false) triggers.push(mentionTrigger);
+  if (settings?.always) triggers.push(alwaysTrigger);
+  if (settings?.keywords?.length || settings?.patterns?.length) {
+    triggers.push(new KeywordTrigger({ keywords: settings.keywords, patterns: settings.patterns }));
+  }
+  if (settings?.replyToBot) {
+    triggers.push(new ReplyToBotTrigger(deps.isBotMessage, deps.lookupBotMessage));
+  }
+  if (settings?.mentionAll) triggers.push(mentionAllTrigger);
+  if (settings?.questions) triggers.push(questionTrigger);
+  if (settings?.admins?.length) triggers.push(new AdminTrigger(settings.admins));
+  return triggers;
+}
+
+/**
+ * Resolve the triggers of a group chat; each chat's list is built once.
+ */
+export function createTriggerResolver(
+  config: Config,
+  deps: TriggerDependencies
+): (chatId: string) => Trigger[] {
+  const cache = new Map<string, Trigger[]>();
+  return (chatId) => {
+    const cached = cache.get(chatId);
+    if (cached) return cached;
+    const group = resolveGroupConfig(config, chatId)?.triggers;
+    const triggers = createTriggers({ ...config.triggers, ...group }, deps);
+    cache.set(chatId, triggers);
+    return triggers;
+  };
+}
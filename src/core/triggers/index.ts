@@ -14,4 +14,6 @@ export interface TriggerContext {
 export interface Trigger {
   readonly name: string;
   check(ctx: TriggerContext): boolean;
+  /** Load what check() needs (e.g. an API lookup) before a message is buffered */
+  prepare?(ctx: TriggerContext): Promise<void>;
 }
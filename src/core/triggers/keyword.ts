@@ -0,0 +1,57 @@
+/**
+ * Keyword trigger - checks the message text for keywords or regular expressions.
+ */
+
+import type { Trigger, TriggerContext } from "./index.js";
+
+/** Scripts written without spaces between words; their keywords match anywhere */
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+/** A letter, digit or underscore that is not CJK */
+const WORD_CHAR = `(?:(?![${CJK}])[\\p{L}\\p{N}_])`;
+const WORD_CHAR_PATTERN = new RegExp(`^${WORD_CHAR}$`, "u");
+
+export interface KeywordTriggerOptions {
+  /**
+   * Words matched case-insensitively as whole words ("deploy" does not match
+   * "redeployed"); CJK keywords match anywhere in the text
+   */
+  keywords?: string[];
+  /** Regular expressions; strings are compiled case-insensitively */
+  patterns?: (string | RegExp)[];
+}
+
+export class KeywordTrigger implements Trigger {
+  readonly name = "keyword";
+  private readonly keywords: RegExp[];
+  private readonly patterns: RegExp[];
+
+  constructor(options: KeywordTriggerOptions) {
+    this.keywords = (options.keywords ?? [])
+      .filter((keyword) => keyword.length > 0)
+      .map(compileKeyword);
+    this.patterns = (options.patterns ?? []).map((pattern) =>
+      typeof pattern === "string" ? new RegExp(pattern, "i") : pattern
+    );
+  }
+
+  check(ctx: TriggerContext): boolean {
+    const text = ctx.parsed.content;
+    if (this.keywords.some((keyword) => keyword.test(text))) return true;
+    return this.patterns.some((pattern) => {
+      pattern.lastIndex = 0; // Global patterns keep state between calls
+      return pattern.test(text);
+    });
+  }
+}
+
+/**
+ * Keyword as a case-insensitive pattern. An edge that is a word character
+ * must not touch another word character; CJK edges need no boundary.
+ */
+function compileKeyword(keyword: string): RegExp {
+  const chars = [...keyword];
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const start = WORD_CHAR_PATTERN.test(chars[0] ?? "") ? `(?<!${WORD_CHAR})` : "";
+  const end = WORD_CHAR_PATTERN.test(chars[chars.length - 1] ?? "") ? `(?!${WORD_CHAR})` : "";
+  return new RegExp(`${start}${escaped}${end}`, "iu");
+}
@@ -0,0 +1,18 @@
+/**
+ * @all trigger - checks if the message mentions everyone in the chat.
+ */
+
+import type { Trigger, TriggerContext } from "./index.js";
+
+export class MentionAllTrigger implements Trigger {
+  readonly name = "mentionAll";
+
+  check(ctx: TriggerContext): boolean {
+    const message = ctx.event.message;
+    if (message.mentions?.some((mention) => mention.key === "@_all")) return true;
+    // Text messages carry "@_all", posts an at element with user_id "all"
+    return message.content.includes("@_all") || /"user_id":\s*"all"/.test(message.content);
+  }
+}
+
+export const mentionAllTrigger = new MentionAllTrigger();
@@ -0,0 +1,22 @@
+/**
+ * Question trigger - checks if the message looks like a question.
+ */
+
+import type { Trigger, TriggerContext } from "./index.js";
+
+// A question mark ends a sentence (not one inside a URL)
+const QUESTION_MARK = /[?？](\s|$)/;
+const ENGLISH_QUESTION =
+  /^(what|how|why|when|where|who|which|can|could|would|should|is|are|does|do|did)\b/i;
+const CHINESE_QUESTION = /^(什么|怎么|为什么|为啥|如何|哪|谁|是否|能否|有没有)|(吗|呢)[。!！\s]*$/;
+
+export class QuestionTrigger implements Trigger {
+  readonly name = "question";
+
+  check(ctx: TriggerContext): boolean {
+    const text = ctx.parsed.content.trim();
+    return QUESTION_MARK.test(text) || ENGLISH_QUESTION.test(text) || CHINESE_QUESTION.test(text);
+  }
+}
+
+export const questionTrigger = new QuestionTrigger();
@@ -0,0 +1,52 @@
+/**
+ * Reply trigger - checks if the message replies to a message the bot sent.
+ * Messages the bot sent since starting are known in memory; other parents
+ * are looked up once (see prepare) and the result is cached.
+ */
+
+import type { Trigger, TriggerContext } from "./index.js";
+
+// Constants
+
+const MAX_CACHED_LOOKUPS = 500;
+
+// Trigger
+
+export class ReplyToBotTrigger implements Trigger {
+  readonly name = "replyToBot";
+  private readonly isBotMessage: (messageId: string) => boolean;
+  private readonly lookupBotMessage?: (messageId: string) => Promise<boolean>;
+  private readonly lookups = new Map<string, boolean>();
+
+  /**
+   * @param isBotMessage Whether a message ID belongs to a message the bot sent
+   * @param lookupBotMessage Looks up the sender of messages isBotMessage does not know
+   */
+  constructor(
+    isBotMessage: (messageId: string) => boolean,
+    lookupBotMessage?: (messageId: string) => Promise<boolean>
+  ) {
+    this.isBotMessage = isBotMessage;
+    this.lookupBotMessage = lookupBotMessage;
+  }
+
+  async prepare(ctx: TriggerContext): Promise<void> {
+    const parentId = ctx.parsed.parentId;
+    if (!parentId || !this.lookupBotMessage) return;
+    if (this.isBotMessage(parentId) || this.lookups.has(parentId)) return;
+
+    const isBot = await this.lookupBotMessage(parentId).catch(() => false);
+    this.lookups.set(parentId, isBot);
+    // Oldest lookups go first
+    for (const key of this.lookups.keys()) {
+      if (this.lookups.size <= MAX_CACHED_LOOKUPS) break;
+      this.lookups.delete(key);
+    }
+  }
+
+  check(ctx: TriggerContext): boolean {
+    const parentId = ctx.parsed.parentId;
+    if (parentId === undefined) return false;
+    return this.isBotMessage(parentId) || this.lookups.get(parentId) === true;
+  }
+}
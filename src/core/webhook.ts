@@ -0,0 +1,266 @@
+/**
+ * HTTP event subscription (webhook) endpoint.
+ * Verifies and decrypts Feishu event callbacks, answers the url_verification
+ * challenge and hands events to the same handlers the WebSocket gateway uses.
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+
+// Constants
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Types
+
+/** Event handlers keyed by event type (e.g. "im.message.receive_v1") */
+export type EventHandlerMap = Record<string, (data: unknown) => Promise<void>>;
+
+export interface WebhookHandlerOptions {
+  /** Request path to accept events on (e.g. "/feishu/events") */
+  path: string;
+  /** Encrypt Key from the app's event subscription page */
+  encryptKey?: string;
+  /** Verification Token from the app's event subscription page */
+  verificationToken?: string;
+  handlers: EventHandlerMap;
+  log?: (msg: string) => void;
+  error?: (msg: string) => void;
+}
+
+export interface WebhookServerOptions extends WebhookHandlerOptions {
+  host: string;
+  port: number;
+}
+
+type Obj = Record<string, unknown>;
+
+// Crypto Helpers
+
+/**
+ * Compute the X-Lark-Signature value for a request body.
+ * signature = sha256(timestamp + nonce + encryptKey + rawBody)
+ */
+export function computeSignature(
+  timestamp: string,
+  nonce: string,
+  encryptKey: string,
+  rawBody: string
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(timestamp + nonce + encryptKey + rawBody)
+    .digest("hex");
+}
+
+/**
+ * Decrypt an `encrypt` payload (AES-256-CBC, key = sha256(encryptKey), IV prefixed).
+ */
+export function decryptEvent(encrypt: string, encryptKey: string): string {
+  const key = crypto.createHash("sha256").update(encryptKey).digest();
+  const data = Buffer.from(encrypt, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-cbc", key, data.subarray(0, 16));
+  return Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]).toString("utf8");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+// Request Helpers
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket open so the 413 can be sent
+        req.removeAllListeners("data");
+        req.pause();
+        reject(new Error("Request body too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {}
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Flatten a v2 (`schema: "2.0"`) or v1 event callback into the shape the
+ * WebSocket SDK hands to event handlers: header and event fields merged.
+ */
+function flattenEvent(payload: Obj): { eventType?: string; data: Obj } {
+  if ("schema" in payload) {
+    const { header: eventHeader, event, ...rest } = payload;
+    const h = (eventHeader ?? {}) as Obj;
+    return {
+      eventType: typeof h.event_type === "string" ? h.event_type : undefined,
+      data: { ...rest, ...h, ...((event ?? {}) as Obj) },
+    };
+  }
+  const { event, ...rest } = payload;
+  const e = (event ?? {}) as Obj;
+  return {
+    eventType: typeof e.type === "string" ? e.type : undefined,
+    data: { ...e, ...rest },
+  };
+}
+
+function extractToken(payload: Obj): string | undefined {
+  const eventHeader = payload.header as Obj | undefined;
+  const token = eventHeader?.token ?? payload.token;
+  return typeof token === "string" ? token : undefined;
+}
+
+// Webhook Handler
+
+/**
+ * Create a Node.js request listener for Feishu event callbacks.
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> {
+  const { path, encryptKey, verificationToken, handlers } = options;
+  const log = options.log ?? (() => undefined);
+  const error = options.error ?? log;
+
+  return async (req, res) => {
+    const requestPath = (req.url ?? "").split("?")[0];
+    if (requestPath !== path) {
+      sendJson(res, 404, { error: "not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      sendJson(res, 405, { error: "method not allowed" });
+      return;
+    }
+
+    let rawBody: string;
+    try {
+      rawBody = await readBody(req);
+    } catch (err) {
+      // The rest of the body is unread, so close the connection once answered
+      res.once("finish", () => req.destroy());
+      sendJson(res, 413, { error: String(err) }, { Connection: "close" });
+      return;
+    }
+
+    let payload: Obj;
+    try {
+      const parsed: unknown = JSON.parse(rawBody);
+      if (typeof parsed !== "object" || parsed === null) throw new Error("not an object");
+      payload = parsed as Obj;
+    } catch {
+      sendJson(res, 400, { error: "invalid JSON" });
+      return;
+    }
+
+    // Signature is sent for every event when an Encrypt Key is configured
+    const signature = header(req, "x-lark-signature");
+    if (encryptKey && signature) {
+      const expected = computeSignature(
+        header(req, "x-lark-request-timestamp") ?? "",
+        header(req, "x-lark-request-nonce") ?? "",
+        encryptKey,
+        rawBody
+      );
+      if (!safeEqual(expected, signature)) {
+        log("Webhook: rejected request with invalid signature");
+        sendJson(res, 401, { error: "invalid signature" });
+        return;
+      }
+    }
+
+    if (typeof payload.encrypt === "string") {
+      if (!encryptKey) {
+        error("Webhook: received encrypted event but encryptKey is not configured");
+        sendJson(res, 400, { error: "encryptKey not configured" });
+        return;
+      }
+      try {
+        const { encrypt, ...rest } = payload;
+        payload = { ...(JSON.parse(decryptEvent(encrypt as string, encryptKey)) as Obj), ...rest };
+      } catch (err) {
+        error(`Webhook: failed to decrypt event: ${String(err)}`);
+        sendJson(res, 400, { error: "decrypt failed" });
+        return;
+      }
+    }
+
+    const token = extractToken(payload);
+    if (verificationToken && token !== verificationToken) {
+      log("Webhook: rejected request with invalid verification token");
+      sendJson(res, 401, { error: "invalid token" });
+      return;
+    }
+
+    // URL verification challenge (sent when the request URL is saved)
+    if (payload.type === "url_verification") {
+      log("Webhook: answered url_verification challenge");
+      sendJson(res, 200, { challenge: payload.challenge });
+      return;
+    }
+
+    if (encryptKey && !signature) {
+      log("Webhook: rejected unsigned event");
+      sendJson(res, 401, { error: "missing signature" });
+      return;
+    }
+
+    const { eventType, data } = flattenEvent(payload);
+    const handler = eventType ? handlers[eventType] : undefined;
+    if (!handler) {
+      log(`Webhook: no handler for event ${eventType ?? "unknown"}`);
+      sendJson(res, 200, {});
+      return;
+    }
+
+    try {
+      await handler(data);
+      sendJson(res, 200, {});
+    } catch (err) {
+      error(`Webhook: handler for ${eventType} failed: ${String(err)}`);
+      sendJson(res, 500, { error: "handler failed" });
+    }
+  };
+}
+
+/**
+ * Start an HTTP server accepting Feishu event callbacks.
+ * Resolves once the server is listening.
+ */
+export function startWebhookServer(options: WebhookServerOptions): Promise<http.Server> {
+  const handler = createWebhookHandler(options);
+  const server = http.createServer((req, res) => {
+    void handler(req, res);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
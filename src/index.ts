@@ -16,10 +16,14 @@ export { initializeRuntime, getRuntime } from "./plugin/index.js";
 export {
   sendTextMessage,
   sendCardMessage,
+  sendPostMessage,
   editMessage,
+  editPostMessage,
   updateCard,
   getMessage,
+  getMergeForwardMessages,
   listMessages,
+  recallMessage,
   normalizeTarget,
   isValidId,
 } from "./api/messages.js";
@@ -32,27 +36,115 @@ export {
   sendMedia,
   sendImage,
   sendFile,
+  sendAudio,
+  sendVideo,
   detectFileType,
   isImageOptimizationAvailable,
+  getMediaMaxBytes,
+  getOpusDuration,
+  getMp4Duration,
+  MediaTooLargeError,
 } from "./api/media.js";
 
+export {
+  createCardEntity,
+  sendCardEntity,
+  streamCardContent,
+  updateCardEntity,
+} from "./api/cardkit.js";
+
+export {
+  scheduleOutbound,
+  getRetryHint,
+  resetOutboundScheduler,
+  RETRYABLE_CODES,
+} from "./api/rate-limit.js";
+
 export { addReaction, removeReaction, listReactions, Emoji } from "./api/reactions.js";
 
-export { listUsers, listGroups, getUserByOpenId, getUserByUnionId } from "./api/directory.js";
+export {
+  listUsers,
+  listGroups,
+  getUserByOpenId,
+  getUserByUnionId,
+  getChatType,
+} from "./api/directory.js";
 
 export { probeConnection, getApiClient, clearClientCache } from "./api/client.js";
 
 // Core utilities
 export { startGateway, stopGateway, getBotOpenId, getBotName, setBotInfo } from "./core/gateway.js";
 
+export {
+  MemoryDedupStore,
+  FileDedupStore,
+  createDedupStore,
+  type DedupStore,
+} from "./core/dedup-store.js";
+
+export {
+  MediaCache,
+  getMediaCache,
+  resolveMediaDir,
+  type MediaCacheEntry,
+} from "./core/media-cache.js";
+
+export { ReplyTracker, type TrackedMessage, type TrackedReply } from "./core/reply-tracker.js";
+
+export {
+  CommandTranscriptionProvider,
+  setTranscriptionProvider,
+  getTranscriptionProvider,
+  formatVoiceMessage,
+  type TranscriptionProvider,
+  type TranscriptionRequest,
+} from "./core/transcription.js";
+
 export {
   parseMessageEvent,
+  parseCardActionEvent,
+  getThreadRootId,
+  getConversationKey,
+  extractAttachments,
+  formatForwardedTranscript,
   isBotMentioned,
   stripMentions,
   extractMentions,
   formatMentionsForFeishu,
 } from "./core/parser.js";
 
+export { parsePost, type ParsedPost } from "./core/post.js";
+
+export { createTriggers, createTriggerResolver } from "./core/triggers/config.js";
+export { MentionTrigger, mentionTrigger } from "./core/triggers/mention.js";
+export { KeywordTrigger } from "./core/triggers/keyword.js";
+export { ReplyToBotTrigger } from "./core/triggers/reply.js";
+export { MentionAllTrigger, mentionAllTrigger } from "./core/triggers/mention-all.js";
+export { QuestionTrigger, questionTrigger } from "./core/triggers/question.js";
+export { AdminTrigger } from "./core/triggers/admin.js";
+export { AlwaysTrigger, alwaysTrigger } from "./core/triggers/always.js";
+export type { Trigger, TriggerContext } from "./core/triggers/index.js";
+
+export {
+  parseCommand,
+  isCommandAuthorized,
+  resolveCommandPolicy,
+  LOCAL_COMMANDS,
+  type ParsedCommand,
+  type LocalCommandName,
+} from "./core/commands.js";
+
+export {
+  renderMarkdownToPost,
+  stripMarkdown,
+  needsMarkdownCard,
+  buildMarkdownCard,
+  sendMarkdownMessage,
+  editMarkdownMessage,
+  type PostContent,
+  type PostElement,
+} from "./core/markdown.js";
+
 export {
   checkDmPolicy,
   checkGroupPolicy,
@@ -82,6 +174,7 @@ export {
   listAccountIds,
   getDefaultAccountId,
   normalizeAccountId,
+  mergeAccountConfig,
   DEFAULT_ACCOUNT_ID,
   type Config,
   type AccountConfig,
@@ -97,8 +190,12 @@ export {
 export type {
   // Events
   MessageReceivedEvent,
+  MessageUpdatedEvent,
+  MessageRecalledEvent,
+  MessageReactionEvent,
   BotAddedEvent,
   BotRemovedEvent,
+  CardActionEvent,
   MessageSender,
   MessagePayload,
   MessageMention,
@@ -127,6 +224,7 @@ export type {
   FileType,
   SendImageParams,
   SendFileParams,
+  SendVideoParams,
   // Reactions
   Reaction,
   AddReactionParams,
@@ -140,4 +238,9 @@ export type {
 } from "./types/index.js";
 
 // Tools
-export { createListMessagesTool } from "./plugin/tools.js";
+export {
+  createListMessagesTool,
+  createMediaLookupTool,
+  createRecallMessageTool,
+  createReactTool,
+} from "./plugin/tools.js";
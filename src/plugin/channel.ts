@@ -16,14 +16,16 @@ import {
   listAccountIds,
   getDefaultAccountId,
   normalizeAccountId,
+  mergeAccountConfig,
   DEFAULT_ACCOUNT_ID,
 } from "../config/schema.js";
 import { probeConnection } from "../api/client.js";
 import { sendTextMessage, normalizeTarget, isValidId } from "../api/messages.js";
-import { sendMedia } from "../api/media.js";
+import { MediaTooLargeError, sendMedia } from "../api/media.js";
 import { listUsers, listGroups } from "../api/directory.js";
 import { resolveGroupToolPolicy } from "../core/policy.js";
 import { formatMentionsForFeishu } from "../core/parser.js";
+import { sendMarkdownMessage } from "../core/markdown.js";
 import { getRuntime } from "../core/runtime.js";
 import { getBotOpenId } from "../core/gateway.js";
 import { feishuOnboarding } from "./onboarding.js";
@@ -57,6 +59,21 @@ function resolveAccount(cfg: OpenClawConfig, accountId?: string | null): Resolve
   };
 }
 
+/**
+ * Get the Feishu config scoped to a single account.
+ */
+function resolveFeishuConfig(cfg: OpenClawConfig, accountId?: string | null): Config | undefined {
+  return mergeAccountConfig(cfg.channels?.feishu as Config | undefined, accountId);
+}
+
+/** Outbound thread target: the thread root is replied to inside the thread */
+function threadReplyParams(threadId?: string | number | null): {
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+} {
+  return threadId ? { replyToMessageId: String(threadId), replyInThread: true } : {};
+}
+
 // Channel Metadata
 
 const meta = {
@@ -80,8 +97,8 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
   pairing: {
     idLabel: "feishuUserId",
     normalizeAllowEntry: (entry) => entry.replace(/^(feishu|user|open_id):/i, ""),
-    notifyApproval: async ({ cfg, id }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    notifyApproval: async ({ cfg, id, accountId }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) return;
       await sendTextMessage(feishuCfg, {
         to: id,
@@ -115,7 +132,7 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
   // Group tool policy resolution (supports per-sender override via toolsBySender)
   groups: {
     resolveToolPolicy: (params: ChannelGroupContext): GroupToolPolicyConfig | undefined => {
-      const cfg = params.cfg.channels?.feishu as Config | undefined;
+      const cfg = resolveFeishuConfig(params.cfg, params.accountId);
       if (!cfg) return undefined;
       return resolveGroupToolPolicy(cfg, params.groupId, {
         senderId: params.senderId,
@@ -129,8 +146,8 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
 
   // Threading configuration
   threading: {
-    resolveReplyToMode: ({ cfg }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    resolveReplyToMode: ({ cfg, accountId }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       return feishuCfg?.replyToMode ?? "first";
     },
   },
@@ -145,7 +162,12 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
         appId: { type: "string" },
         appSecret: { type: "string" },
         domain: { type: "string", enum: ["feishu", "lark"] },
-        connectionMode: { type: "string", enum: ["websocket"] },
+        connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+        webhookHost: { type: "string" },
+        webhookPort: { type: "integer", minimum: 0, maximum: 65535 },
+        webhookPath: { type: "string", pattern: "^/" },
+        encryptKey: { type: "string" },
+        verificationToken: { type: "string" },
         dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
         allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
         groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
@@ -173,9 +195,108 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
           properties: {
             enabled: { type: "boolean" },
             title: { type: "string" },
+            updateIntervalMs: { type: "integer", minimum: 1 },
+            cardkit: { type: "boolean" },
+            placeholder: { type: "string" },
+            footer: { type: "string" },
+          },
+        },
+        cardActions: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+          },
+        },
+        recall: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            retractReplies: { type: "boolean" },
+          },
+        },
+        triggers: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            mention: { type: "boolean" },
+            keywords: { type: "array", items: { type: "string" } },
+            patterns: { type: "array", items: { type: "string" } },
+            replyToBot: { type: "boolean" },
+            mentionAll: { type: "boolean" },
+            questions: { type: "boolean" },
+            admins: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+            always: { type: "boolean" },
+          },
+        },
+        commands: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            admins: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+            policy: {
+              type: "object",
+              additionalProperties: { type: "string", enum: ["everyone", "admins", "nobody"] },
+            },
+          },
+        },
+        reactions: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            mode: { type: "string", enum: ["feedback", "agent", "off"] },
+            commands: {
+              type: "object",
+              additionalProperties: { type: "string", enum: ["regenerate", "resolve"] },
+            },
+          },
+        },
+        markdown: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            mode: { type: "string", enum: ["native", "escape", "strip"] },
+            tableMode: { type: "string", enum: ["native", "ascii", "simple"] },
+          },
+        },
+        rateLimit: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            appQps: { type: "number", exclusiveMinimum: 0 },
+            chatQps: { type: "number", exclusiveMinimum: 0 },
+            maxRetries: { type: "integer", minimum: 0 },
+            baseDelayMs: { type: "integer", minimum: 1 },
           },
         },
         mediaMaxMb: { type: "number", minimum: 0 },
+        mediaCache: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            ttlHours: { type: "number", exclusiveMinimum: 0 },
+            maxSizeMb: { type: "number", exclusiveMinimum: 0 },
+          },
+        },
+        transcription: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            command: { type: "string" },
+            args: { type: "array", items: { type: "string" } },
+            timeoutMs: { type: "integer", minimum: 1 },
+          },
+        },
+        dedupStore: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            type: { type: "string", enum: ["file", "memory"] },
+            dir: { type: "string" },
+          },
+        },
         debugRawEvents: { type: "boolean" },
       },
     },
@@ -336,23 +457,23 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
   // Directory operations
   directory: {
     self: async () => null,
-    listPeers: async ({ cfg, query, limit }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    listPeers: async ({ cfg, accountId, query, limit }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) return [];
       return listUsers(feishuCfg, { query, limit });
     },
-    listGroups: async ({ cfg, query, limit }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    listGroups: async ({ cfg, accountId, query, limit }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) return [];
       return listGroups(feishuCfg, { query, limit });
     },
-    listPeersLive: async ({ cfg, query, limit }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    listPeersLive: async ({ cfg, accountId, query, limit }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) return [];
       return listUsers(feishuCfg, { query, limit });
     },
-    listGroupsLive: async ({ cfg, query, limit }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    listGroupsLive: async ({ cfg, accountId, query, limit }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) return [];
       return listGroups(feishuCfg, { query, limit });
     },
@@ -368,40 +489,48 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
       return getRuntime().channel.text.chunkTextWithMode(text, limit, "markdown");
     },
 
-    sendText: async ({ cfg, to, text }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    sendText: async ({ cfg, to, text, accountId, threadId }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) throw new Error("Feishu not configured");
       const runtime = getRuntime();
       const tableMode = runtime.channel.text.resolveMarkdownTableMode({ cfg, channel: "feishu" });
       const tableConverted = runtime.channel.text.convertMarkdownTables(text ?? "", tableMode);
-      const convertedText = formatMentionsForFeishu(tableConverted, getBotOpenId());
-      const result = await sendTextMessage(feishuCfg, { to, text: convertedText });
+      const convertedText = formatMentionsForFeishu(tableConverted, getBotOpenId(accountId));
+      const result = await sendMarkdownMessage(feishuCfg, {
+        to,
+        text: convertedText,
+        ...threadReplyParams(threadId),
+      });
       return { channel: "feishu", ...result };
     },
 
-    sendMedia: async ({ cfg, to, text, mediaUrl }) => {
-      const feishuCfg = cfg.channels?.feishu as Config | undefined;
+    sendMedia: async ({ cfg, to, text, mediaUrl, accountId, threadId }) => {
+      const feishuCfg = resolveFeishuConfig(cfg, accountId);
       if (!feishuCfg) throw new Error("Feishu not configured");
       const runtime = getRuntime();
       const tableMode = runtime.channel.text.resolveMarkdownTableMode({ cfg, channel: "feishu" });
+      const thread = threadReplyParams(threadId);
 
       // Send text first if provided
       if (text?.trim()) {
         const mediaTableConverted = runtime.channel.text.convertMarkdownTables(text, tableMode);
-        const convertedText = formatMentionsForFeishu(mediaTableConverted, getBotOpenId());
-        await sendTextMessage(feishuCfg, { to, text: convertedText });
+        const convertedText = formatMentionsForFeishu(mediaTableConverted, getBotOpenId(accountId));
+        await sendMarkdownMessage(feishuCfg, { to, text: convertedText, ...thread });
       }
 
       // Send media if URL provided
       if (mediaUrl) {
         try {
-          const result = await sendMedia(feishuCfg, { to, mediaUrl });
+          const result = await sendMedia(feishuCfg, { to, mediaUrl, ...thread });
           return { channel: "feishu", ...result };
         } catch (err) {
           console.error("[feishu] sendMedia failed:", err);
+          // Oversized media is refused, and only remote URLs are worth posting as a link
+          // (a local path must never reach the chat)
+          if (err instanceof MediaTooLargeError || !/^https?:\/\//i.test(mediaUrl)) throw err;
           // Fallback to URL link
           const fallback = `📎 ${mediaUrl}`;
-          const result = await sendTextMessage(feishuCfg, { to, text: fallback });
+          const result = await sendTextMessage(feishuCfg, { to, text: fallback, ...thread });
           return { channel: "feishu", ...result };
         }
       }
@@ -410,8 +539,15 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
         text ?? "",
         tableMode
       );
-      const convertedFallback = formatMentionsForFeishu(fallbackTableConverted, getBotOpenId());
-      const result = await sendTextMessage(feishuCfg, { to, text: convertedFallback });
+      const convertedFallback = formatMentionsForFeishu(
+        fallbackTableConverted,
+        getBotOpenId(accountId)
+      );
+      const result = await sendMarkdownMessage(feishuCfg, {
+        to,
+        text: convertedFallback,
+        ...thread,
+      });
       return { channel: "feishu", ...result };
     },
   },
@@ -438,8 +574,8 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
       lastProbeAt: snapshot.lastProbeAt ?? null,
     }),
 
-    probeAccount: async ({ cfg }) =>
-      await probeConnection(cfg.channels?.feishu as Config | undefined),
+    probeAccount: async ({ cfg, account }) =>
+      await probeConnection(resolveFeishuConfig(cfg, account?.accountId), account?.accountId),
 
     buildAccountSnapshot: ({ account, runtime, probe }) => ({
       accountId: account.accountId,
@@ -458,16 +594,21 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
   gateway: {
     startAccount: async (ctx) => {
       const { startGateway, setBotInfo } = await import("../core/gateway.js");
-      const feishuCfg = ctx.cfg.channels?.feishu as Config | undefined;
+      const accountId = normalizeAccountId(ctx.accountId);
+      const feishuCfg = resolveFeishuConfig(ctx.cfg, accountId);
       if (!feishuCfg) throw new Error("Feishu not configured");
 
-      ctx.setStatus({ accountId: ctx.accountId });
-      ctx.log?.info("Starting Feishu provider (websocket)");
+      const mode = feishuCfg.connectionMode ?? "websocket";
+      ctx.setStatus({
+        accountId,
+        ...(mode === "webhook" ? { port: feishuCfg.webhookPort ?? 3000 } : {}),
+      });
+      ctx.log?.info(`Starting Feishu provider (${mode}, account=${accountId})`);
 
       // Probe bot info before starting gateway
-      const probeResult = await probeConnection(feishuCfg);
+      const probeResult = await probeConnection(feishuCfg, accountId);
       if (probeResult.ok && probeResult.botOpenId) {
-        setBotInfo(probeResult.botOpenId, probeResult.botName);
+        setBotInfo(probeResult.botOpenId, probeResult.botName, accountId);
         ctx.log?.info(`Bot identity: ${probeResult.botName} (${probeResult.botOpenId})`);
       } else {
         ctx.log?.info(`Probe warning: ${probeResult.error ?? "no bot info"}`);
@@ -477,6 +618,7 @@ export const feishuChannel: ChannelPlugin<ResolvedAccount> = {
         cfg: ctx.cfg,
         runtime: ctx.runtime,
         abortSignal: ctx.abortSignal,
+        accountId,
       });
     },
   },
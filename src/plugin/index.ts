@@ -2,12 +2,29 @@
  * Clawdbot plugin entry point.
  */
 
-import type { ClawdbotPluginApi } from "openclaw/plugin-sdk";
+import type { ClawdbotPluginApi, OpenClawConfig } from "openclaw/plugin-sdk";
 import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
 import { feishuChannel } from "./channel.js";
 import { initializeRuntime } from "../core/runtime.js";
-import { createListMessagesTool, createSendCardTool } from "./tools.js";
+import {
+  createListMessagesTool,
+  createMediaLookupTool,
+  createReactTool,
+  createRecallMessageTool,
+  createSendCardTool,
+  type CreateToolOptions,
+} from "./tools.js";
 import type { Config } from "../config/schema.js";
+import { mergeAccountConfig, normalizeAccountId } from "../config/schema.js";
+import { getSessionChat } from "../core/sessions.js";
+
+/** Context OpenClaw passes to tool factories */
+interface PluginToolContext {
+  config?: OpenClawConfig;
+  messageChannel?: string;
+  agentAccountId?: string;
+  sessionKey?: string;
+}
 
 // Re-export runtime management from core
 export { initializeRuntime, getRuntime } from "../core/runtime.js";
@@ -24,15 +41,35 @@ const plugin = {
 
     const apiAny = api as unknown as Record<string, unknown>;
     if (typeof apiAny.registerTool === "function") {
-      const registerTool = apiAny.registerTool as (tool: unknown) => void;
+      const registerTool = apiAny.registerTool as (
+        factory: (ctx: PluginToolContext) => unknown
+      ) => void;
+      const apiConfig = () => (api as unknown as { config?: OpenClawConfig }).config;
 
-      const getFeishuConfig = () =>
-        (api as unknown as { config?: { channels?: { feishu?: Config } } }).config?.channels
-          ?.feishu;
+      // Tools are created per agent run, scoped to the account of the calling conversation
+      const register = (create: (opts: CreateToolOptions) => unknown) =>
+        registerTool((ctx) => {
+          const isFeishu = ctx.messageChannel === "feishu";
+          const accountId = isFeishu ? ctx.agentAccountId : undefined;
+          return create({
+            getConfig: () =>
+              mergeAccountConfig(
+                (ctx.config ?? apiConfig())?.channels?.feishu as Config | undefined,
+                accountId
+              ),
+            getConversation: () => {
+              const chat = isFeishu && ctx.sessionKey ? getSessionChat(ctx.sessionKey) : undefined;
+              return chat?.accountId === normalizeAccountId(accountId) ? chat : undefined;
+            },
+          });
+        });
 
       // Register Feishu tools
-      registerTool(createListMessagesTool({ getConfig: getFeishuConfig }));
-      registerTool(createSendCardTool({ getConfig: getFeishuConfig }));
+      register(createListMessagesTool);
+      register(createSendCardTool);
+      register(createMediaLookupTool);
+      register(createRecallMessageTool);
+      register(createReactTool);
     }
   },
 };
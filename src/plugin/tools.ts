@@ -4,7 +4,16 @@
 
 import { Type, type Static } from "@sinclair/typebox";
 import type { Config } from "../config/schema.js";
-import { listMessages, sendCardMessage } from "../api/messages.js";
+import {
+  getMessage,
+  listMessages,
+  recallMessage,
+  sendCardMessage,
+  updateCard,
+} from "../api/messages.js";
+import { addReaction, Emoji, listReactions, removeReaction } from "../api/reactions.js";
+import { getMediaCache } from "../core/media-cache.js";
+import type { ChatScope } from "../core/sessions.js";
 
 // Tool Schema Definitions
 
@@ -28,6 +37,48 @@ const ListMessagesToolSchema = Type.Object({
 
 type ListMessagesParams = Static<typeof ListMessagesToolSchema>;
 
+const MediaLookupToolSchema = Type.Object({
+  fileKey: Type.Optional(
+    Type.String({ description: "file_key or image_key of a received file (e.g., img_v3_xxx)" })
+  ),
+  messageId: Type.Optional(
+    Type.String({ description: "Only files received in this message (e.g., om_xxx)" })
+  ),
+  limit: Type.Optional(
+    Type.Number({
+      description: "Number of recent files to list (default: 20)",
+      minimum: 1,
+      maximum: 100,
+    })
+  ),
+});
+
+type MediaLookupParams = Static<typeof MediaLookupToolSchema>;
+
+const RecallMessageToolSchema = Type.Object({
+  messageId: Type.String({
+    description: "ID of a message the bot sent (e.g., om_xxx)",
+  }),
+});
+
+type RecallMessageParams = Static<typeof RecallMessageToolSchema>;
+
+const ReactToolSchema = Type.Object({
+  messageId: Type.String({
+    description: "ID of the message to react to (e.g., om_xxx)",
+  }),
+  emoji: Type.String({
+    description: `Emoji name: ${Object.keys(Emoji).join(", ")}`,
+  }),
+  remove: Type.Optional(
+    Type.Boolean({
+      description: "Remove the bot's reaction with this emoji instead of adding one",
+    })
+  ),
+});
+
+type ReactParams = Static<typeof ReactToolSchema>;
+
 // Card element text content schema
 const CardTextSchema = Type.Object({
   tag: Type.Union([Type.Literal("plain_text"), Type.Literal("lark_md")], {
@@ -93,6 +144,12 @@ const SendCardToolSchema = Type.Object({
       description: "Message ID to reply to (creates a thread reply)",
     })
   ),
+  updateMessageId: Type.Optional(
+    Type.String({
+      description:
+        "Message ID of a card previously sent by the bot to update in place (e.g. after a card action) instead of sending a new card",
+    })
+  ),
 });
 
 type SendCardParams = Static<typeof SendCardToolSchema>;
@@ -128,7 +185,10 @@ function jsonResult(data: unknown): ToolResult {
 // Tool Factories
 
 export interface CreateToolOptions {
+  /** Config of the account the agent is running for */
   getConfig: () => Config | undefined;
+  /** Feishu account and chat of the calling conversation, if any */
+  getConversation?: () => ChatScope | undefined;
 }
 
 /**
@@ -185,6 +245,162 @@ export function createListMessagesTool(opts: CreateToolOptions) {
   };
 }
 
+// Media Lookup Tool
+
+/**
+ * Create the feishu_media tool for finding files received earlier.
+ * Reads the media cache manifest; files are only listed until they expire,
+ * and only those received in the calling conversation.
+ */
+export function createMediaLookupTool(opts: CreateToolOptions) {
+  return {
+    label: "Feishu Media",
+    name: "feishu_media",
+    description:
+      "Find images and files received earlier in the current Feishu chat. Returns local paths of cached downloads by file_key or message ID, or the most recent files.",
+    parameters: MediaLookupToolSchema,
+    execute: async (_toolCallId: string, args: unknown) => {
+      try {
+        const config = opts.getConfig();
+        if (!config) {
+          return jsonResult({ error: "Feishu not configured" });
+        }
+
+        // Files from other chats, DMs or accounts are never shown
+        const conversation = opts.getConversation?.();
+        if (!conversation) {
+          return jsonResult({ error: "feishu_media is only available in Feishu conversations" });
+        }
+
+        const params = (args ?? {}) as MediaLookupParams;
+        const cache = getMediaCache(config);
+
+        if (params.fileKey) {
+          const entry = await cache.get(params.fileKey, conversation);
+          if (!entry) {
+            return jsonResult({ error: `No cached file for ${params.fileKey} in this chat` });
+          }
+          return jsonResult({ files: [entry] });
+        }
+
+        const files = cache
+          .list(conversation)
+          .filter((entry) => !params.messageId || entry.messageId === params.messageId)
+          .slice(0, params.limit ?? 20);
+        return jsonResult({ files });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return jsonResult({ error: `Tool execution failed: ${message}` });
+      }
+    },
+  };
+}
+
+// Recall Tool
+
+/**
+ * Create the feishu_recall_message tool for retracting the bot's own messages.
+ * Messages sent by users or other bots are refused.
+ */
+export function createRecallMessageTool(opts: CreateToolOptions) {
+  return {
+    label: "Feishu Recall",
+    name: "feishu_recall_message",
+    description:
+      "Recall (delete) a message the bot sent in Feishu, e.g. to retract an incorrect answer or remove a leftover placeholder. Only the bot's own messages from the last 24 hours can be recalled.",
+    parameters: RecallMessageToolSchema,
+    execute: async (_toolCallId: string, args: unknown) => {
+      try {
+        const config = opts.getConfig();
+        if (!config) {
+          return jsonResult({ error: "Feishu not configured" });
+        }
+
+        const params = (args ?? {}) as RecallMessageParams;
+        if (!params.messageId) {
+          return jsonResult({ error: "messageId is required" });
+        }
+
+        const message = await getMessage(config, params.messageId);
+        if (!message) {
+          return jsonResult({ error: `Message ${params.messageId} not found or not accessible` });
+        }
+        // Bot messages are sent by the app: sender_type "app", sender id = app ID
+        if (message.senderType !== "app" || (config.appId && message.senderId !== config.appId)) {
+          return jsonResult({ error: "Only messages sent by this bot can be recalled" });
+        }
+
+        await recallMessage(config, params.messageId);
+        return jsonResult({ success: true, messageId: params.messageId });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return jsonResult({ error: `Tool execution failed: ${message}` });
+      }
+    },
+  };
+}
+
+// Reaction Tool
+
+/**
+ * Create the feishu_react tool for reacting to messages with an emoji from
+ * the Emoji map (by name, e.g. "THUMBSUP", or by Feishu emoji_type).
+ */
+export function createReactTool(opts: CreateToolOptions) {
+  return {
+    label: "Feishu React",
+    name: "feishu_react",
+    description:
+      "Add an emoji reaction to a Feishu message (e.g. THUMBSUP to acknowledge, CHECK when done), or remove the bot's reaction.",
+    parameters: ReactToolSchema,
+    execute: async (_toolCallId: string, args: unknown) => {
+      try {
+        const config = opts.getConfig();
+        if (!config) {
+          return jsonResult({ error: "Feishu not configured" });
+        }
+
+        const params = (args ?? {}) as ReactParams;
+        if (!params.messageId || !params.emoji) {
+          return jsonResult({ error: "messageId and emoji are required" });
+        }
+
+        const emojiType =
+          Emoji[params.emoji.toUpperCase() as keyof typeof Emoji] ??
+          Object.values(Emoji).find((type) => type === params.emoji);
+        if (!emojiType) {
+          return jsonResult({
+            error: `Unknown emoji "${params.emoji}". Use one of: ${Object.keys(Emoji).join(", ")}`,
+          });
+        }
+
+        if (params.remove) {
+          const reactions = await listReactions(config, params.messageId, emojiType);
+          const own = reactions.filter((r) => r.operatorType === "app");
+          for (const reaction of own) {
+            await removeReaction(config, {
+              messageId: params.messageId,
+              reactionId: reaction.reactionId,
+            });
+          }
+          return jsonResult({
+            success: true,
+            messageId: params.messageId,
+            emojiType,
+            removed: own.length,
+          });
+        }
+
+        const reactionId = await addReaction(config, { messageId: params.messageId, emojiType });
+        return jsonResult({ success: true, messageId: params.messageId, emojiType, reactionId });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return jsonResult({ error: `Tool execution failed: ${message}` });
+      }
+    },
+  };
+}
+
 // Interactive Card Tool
 
 /**
@@ -194,6 +410,8 @@ function buildCardFromParams(params: SendCardParams): Record<string, unknown> {
   const card: Record<string, unknown> = {
     config: {
       wide_screen_mode: true,
+      // Shared card: in-place updates are visible to everyone in the chat
+      update_multi: true,
     },
     elements: params.elements,
   };
@@ -240,7 +458,9 @@ Card elements:
 - column_set: multi-column layout
 
 Text types: plain_text (simple) or lark_md (supports **bold**, *italic*, ~~strike~~, [links](url), <at id=all>everyone</at>).
-Button types: "default", "primary", "danger". Use "url" for links or "value" for callbacks.`,
+Button types: "default", "primary", "danger". Use "url" for links or "value" for callbacks.
+Clicking a "value" button delivers a "[Card action] ..." message with the value and card message ID.
+Pass updateMessageId to replace that card in place (e.g. to show the chosen option).`,
     parameters: SendCardToolSchema,
     execute: async (_toolCallId: string, args: unknown) => {
       try {
@@ -251,6 +471,17 @@ Button types: "default", "primary", "danger". Use "url" for links or "value" for
 
         const params = args as SendCardParams;
 
+        // Validate elements array
+        if (!params.elements || params.elements.length === 0) {
+          return jsonResult({ error: "Card must have at least one element" });
+        }
+
+        // Update an existing card in place
+        if (params.updateMessageId) {
+          await updateCard(config, params.updateMessageId, buildCardFromParams(params));
+          return jsonResult({ success: true, messageId: params.updateMessageId, updated: true });
+        }
+
         // Resolve target: explicit 'to' param, or fallback to current context
         const target = params.to ?? opts.getCurrentTarget?.();
         if (!target) {
@@ -260,11 +491,6 @@ Button types: "default", "primary", "danger". Use "url" for links or "value" for
           });
         }
 
-        // Validate elements array
-        if (!params.elements || params.elements.length === 0) {
-          return jsonResult({ error: "Card must have at least one element" });
-        }
-
         // Build the card structure
         const card = buildCardFromParams(params);
 
@@ -19,6 +19,8 @@ export interface MessagePayload {
   message_id: string;
   root_id?: string;
   parent_id?: string;
+  /** Set when the message belongs to a thread (topic) */
+  thread_id?: string;
   chat_id: string;
   chat_type: "p2p" | "group";
   message_type: string;
@@ -52,6 +54,46 @@ export interface MessageReceivedEvent {
   message: MessagePayload;
 }
 
+/** im.message.updated_v1 event data (a message was edited) */
+export interface MessageUpdatedEvent {
+  event_id?: string;
+  message_id: string;
+  root_id?: string;
+  parent_id?: string;
+  thread_id?: string;
+  chat_id: string;
+  message_type: string;
+  content: string;
+  mentions?: MessageMention[];
+  create_time?: string;
+  update_time?: string;
+}
+
+/** im.message.recalled_v1 event data */
+export interface MessageRecalledEvent {
+  event_id?: string;
+  message_id: string;
+  chat_id: string;
+  recall_time?: string;
+  recall_type?: "message_owner" | "group_owner" | "group_manager" | "enterprise_manager";
+}
+
+/** im.message.reaction.created_v1 / deleted_v1 event data */
+export interface MessageReactionEvent {
+  event_id?: string;
+  message_id: string;
+  reaction_type?: { emoji_type?: string };
+  /** "user" or "app" */
+  operator_type?: string;
+  user_id?: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+  };
+  app_id?: string;
+  action_time?: string;
+}
+
 /** im.chat.member.bot.added_v1 event data */
 export interface BotAddedEvent {
   chat_id: string;
@@ -69,12 +111,58 @@ export interface BotRemovedEvent {
   chat_id: string;
 }
 
+/** card.action.trigger event data (interactive card callback) */
+export interface CardActionEvent {
+  schema?: string;
+  event_id?: string;
+  create_time?: string;
+  event_type?: string;
+  token?: string;
+  tenant_key?: string;
+  app_id?: string;
+  operator: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+    tenant_key?: string;
+  };
+  action: {
+    tag: string;
+    /** Callback value configured on the element (object or string) */
+    value?: Record<string, unknown> | string;
+    /** Element name (form components) */
+    name?: string;
+    /** Selected option (select_static, overflow, ...) */
+    option?: string;
+    /** Selected options (multi_select_static, ...) */
+    options?: string[];
+    /** Submitted form values (form container) */
+    form_value?: Record<string, unknown>;
+    /** Submitted input value (input component) */
+    input_value?: string;
+    checked?: boolean;
+    timezone?: string;
+  };
+  host?: string;
+  context?: {
+    url?: string;
+    preview_token?: string;
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
 /** Event handler function type */
 export type EventHandler<T> = (data: T) => Promise<void>;
 
 /** Registered event handlers */
 export interface EventHandlers {
   onMessageReceived?: EventHandler<MessageReceivedEvent>;
+  onMessageUpdated?: EventHandler<MessageUpdatedEvent>;
+  onMessageRecalled?: EventHandler<MessageRecalledEvent>;
+  onReactionCreated?: EventHandler<MessageReactionEvent>;
+  onReactionDeleted?: EventHandler<MessageReactionEvent>;
   onBotAdded?: EventHandler<BotAddedEvent>;
   onBotRemoved?: EventHandler<BotRemovedEvent>;
+  onCardAction?: EventHandler<CardActionEvent>;
 }
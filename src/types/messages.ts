@@ -8,8 +8,8 @@ export type ReceiveIdType = "open_id" | "user_id" | "union_id" | "chat_id";
 /** Domain selection */
 export type FeishuDomain = "feishu" | "lark";
 
-/** Connection mode (websocket only) */
-export type ConnectionMode = "websocket";
+/** Connection mode */
+export type ConnectionMode = "websocket" | "webhook";
 
 /** DM access policy */
 export type DmPolicy = "open" | "pairing" | "allowlist";
@@ -25,6 +25,18 @@ export interface SendTextParams {
   to: string;
   text: string;
   replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
+}
+
+/** Parameters for sending a rich text (post) message */
+export interface SendPostParams {
+  to: string;
+  /** Post content keyed by locale, e.g. { zh_cn: { title, content } } */
+  post: Record<string, unknown>;
+  replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
 }
 
 /** Parameters for sending an interactive card */
@@ -32,6 +44,8 @@ export interface SendCardParams {
   to: string;
   card: Record<string, unknown>;
   replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
 }
 
 /** Parameters for editing a message */
@@ -44,6 +58,8 @@ export interface EditMessageParams {
 export interface SendResult {
   messageId: string;
   chatId: string;
+  /** msg_type that was sent, when the sender chose it (e.g. Markdown replies) */
+  msgType?: string;
 }
 
 /** Retrieved message information */
@@ -52,6 +68,8 @@ export interface MessageInfo {
   chatId: string;
   senderId?: string;
   senderOpenId?: string;
+  /** "user" or "app" (sent by a bot) */
+  senderType?: string;
   content: string;
   contentType: string;
   createTime?: number;
@@ -109,6 +127,8 @@ export interface ParsedMessage {
   mentionedBot: boolean;
   rootId?: string;
   parentId?: string;
+  /** Thread (topic) the message belongs to */
+  threadId?: string;
   content: string;
   contentType: string;
   /** Non-bot mentions preserved from the message */
@@ -119,6 +139,30 @@ export interface ParsedMessage {
   fileKey?: string;
   /** Original file name for file/media messages */
   fileName?: string;
+  /** Every downloadable image/file in the message (posts can hold several) */
+  attachments?: MessageAttachment[];
+}
+
+/** Downloadable resource attached to an inbound message */
+export interface MessageAttachment {
+  /** Message that owns the resource (a sub-message for forwarded bundles) */
+  messageId: string;
+  fileKey: string;
+  /** Resource type for the messageResource API */
+  type: "image" | "file";
+  fileName?: string;
+}
+
+/** Message inside a merged-forward (merge_forward) bundle */
+export interface ForwardedMessage {
+  messageId: string;
+  /** Bundle the message belongs to (nested bundles point to their parent) */
+  upperMessageId?: string;
+  senderId?: string;
+  msgType: string;
+  /** Raw JSON content */
+  content: string;
+  createTime?: number;
 }
 
 /** Parameters for uploading an image */
@@ -166,7 +210,11 @@ export interface SendMediaParams {
   imageKey?: string;
   fileKey?: string;
   fileName?: string;
+  /** Video cover (buffer, local path or URL); defaults to the first frame */
+  cover?: Buffer | string;
   replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
 }
 
 /** Parameters for sending an already-uploaded image */
@@ -174,6 +222,8 @@ export interface SendImageParams {
   to: string;
   imageKey: string;
   replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
 }
 
 /** Parameters for sending an already-uploaded file */
@@ -181,6 +231,20 @@ export interface SendFileParams {
   to: string;
   fileKey: string;
   replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
+}
+
+/** Parameters for sending an already-uploaded video with its cover */
+export interface SendVideoParams {
+  to: string;
+  /** file_key of the uploaded mp4 */
+  fileKey: string;
+  /** image_key of the cover image */
+  imageKey: string;
+  replyToMessageId?: string;
+  /** Post the reply inside the thread of replyToMessageId */
+  replyInThread?: boolean;
 }
 
 /** Reaction information */
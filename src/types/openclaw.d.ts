@@ -92,6 +92,7 @@ declare module "openclaw/plugin-sdk" {
         resolveAgentRoute(params: {
           cfg: OpenClawConfig;
           channel: string;
+          accountId?: string | null;
           peer: { kind: string; id: string };
         }): { sessionKey: string; accountId: string; agentId: string };
       };
@@ -264,12 +265,16 @@ declare module "openclaw/plugin-sdk" {
       cfg: OpenClawConfig;
       to: string;
       text: string;
+      accountId?: string | null;
+      threadId?: string | number | null;
     }): Promise<{ channel: string; messageId: string; chatId: string }>;
     sendMedia(params: {
       cfg: OpenClawConfig;
       to: string;
       text?: string;
       mediaUrl?: string;
+      accountId?: string | null;
+      threadId?: string | number | null;
     }): Promise<{ channel: string; messageId: string; chatId: string }>;
   }
 
@@ -283,7 +288,10 @@ declare module "openclaw/plugin-sdk" {
       port: null;
     };
     buildChannelSummary(params: { snapshot: Record<string, unknown> }): Record<string, unknown>;
-    probeAccount(params: { cfg: OpenClawConfig }): Promise<{
+    probeAccount(params: {
+      cfg: OpenClawConfig;
+      account?: { accountId: string };
+    }): Promise<{
       ok: boolean;
       error?: string;
       appId?: string;
@@ -323,7 +331,11 @@ declare module "openclaw/plugin-sdk" {
     pairing?: {
       idLabel: string;
       normalizeAllowEntry(entry: string): string;
-      notifyApproval(params: { cfg: OpenClawConfig; id: string }): Promise<void>;
+      notifyApproval(params: {
+        cfg: OpenClawConfig;
+        id: string;
+        accountId?: string | null;
+      }): Promise<void>;
     };
     capabilities: ChannelPluginCapabilities;
     agentPrompt?: {
@@ -377,21 +389,25 @@ declare module "openclaw/plugin-sdk" {
       self(): Promise<null>;
       listPeers(params: {
         cfg: OpenClawConfig;
+        accountId?: string | null;
         query?: string;
         limit?: number;
       }): Promise<{ kind: "user"; id: string; name?: string }[]>;
       listGroups(params: {
         cfg: OpenClawConfig;
+        accountId?: string | null;
         query?: string;
         limit?: number;
       }): Promise<{ kind: "group"; id: string; name?: string }[]>;
       listPeersLive(params: {
         cfg: OpenClawConfig;
+        accountId?: string | null;
         query?: string;
         limit?: number;
       }): Promise<{ kind: "user"; id: string; name?: string }[]>;
       listGroupsLive(params: {
         cfg: OpenClawConfig;
+        accountId?: string | null;
         query?: string;
         limit?: number;
       }): Promise<{ kind: "group"; id: string; name?: string }[]>;
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for api/client.ts
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getApiClient, clearClientCache } from "../../../dist/api/client.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+const config = {
+    appId: "app_main",
+    appSecret: "secret_main",
+    domain: "feishu",
+    accounts: {
+        support: { appId: "app_support", appSecret: "secret_support" },
+    },
+} as Config;
+
+describe("getApiClient", () => {
+    beforeEach(() => {
+        clearClientCache();
+    });
+
+    it("throws when credentials are missing", () => {
+        expect(() => getApiClient({} as Config)).toThrow("credentials not configured");
+    });
+
+    it("reuses the pooled client for the same app", () => {
+        const first = getApiClient(config);
+        expect(getApiClient(config)).toBe(first);
+    });
+
+    it("keeps separate clients when accounts alternate", () => {
+        const main = getApiClient(config, "default");
+        const support = getApiClient(config, "support");
+
+        expect(support).not.toBe(main);
+        expect(getApiClient(config, "default")).toBe(main);
+        expect(getApiClient(config, "support")).toBe(support);
+    });
+
+    it("keys clients by domain as well as appId", () => {
+        const feishu = getApiClient(config);
+        const lark = getApiClient({ ...config, domain: "lark" } as Config);
+        expect(lark).not.toBe(feishu);
+    });
+
+    it("rebuilds the client when the secret is rotated", () => {
+        const before = getApiClient(config);
+        const after = getApiClient({ ...config, appSecret: "rotated" } as Config);
+        expect(after).not.toBe(before);
+    });
+});
+
+describe("clearClientCache", () => {
+    beforeEach(() => {
+        clearClientCache();
+    });
+
+    it("evicts only the clients used by the given account", () => {
+        const main = getApiClient(config, "default");
+        const support = getApiClient(config, "support");
+
+        clearClientCache("support");
+
+        expect(getApiClient(config, "default")).toBe(main);
+        expect(getApiClient(config, "support")).not.toBe(support);
+    });
+
+    it("evicts by appId", () => {
+        const support = getApiClient(config, "support");
+        clearClientCache("app_support");
+        expect(getApiClient(config, "support")).not.toBe(support);
+    });
+
+    it("clears the whole pool without an accountId", () => {
+        const main = getApiClient(config, "default");
+        const support = getApiClient(config, "support");
+
+        clearClientCache();
+
+        expect(getApiClient(config, "default")).not.toBe(main);
+        expect(getApiClient(config, "support")).not.toBe(support);
+    });
+});
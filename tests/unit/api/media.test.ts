@@ -2,8 +2,33 @@
  * Unit tests for api/media.ts
  */
 
-import { describe, it, expect } from "vitest";
-import { detectFileType } from "../../../dist/api/media.js";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi } from "vitest";
+import {
+    detectFileType,
+    getMediaMaxBytes,
+    getOpusDuration,
+    getMp4Duration,
+    MediaTooLargeError,
+    sendMedia,
+} from "../../../dist/api/media.js";
+import { getApiClient } from "../../../dist/api/client.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+/** Sources passed to the SDK image optimizer, with their size */
+const optimized = vi.hoisted(() => [] as { source: string; size: number }[]);
+
+vi.mock("openclaw/plugin-sdk", async () => {
+    const { promises } = await import("node:fs");
+    return {
+        loadWebMedia: async (source: string) => {
+            optimized.push({ source, size: (await promises.readFile(source)).length });
+            return { buffer: Buffer.from("small"), contentType: "image/png" };
+        },
+    };
+});
 
 describe("detectFileType", () => {
     it("detects opus audio", () => {
@@ -38,3 +63,216 @@ describe("detectFileType", () => {
         expect(detectFileType("Video.MP4")).toBe("mp4");
     });
 });
+
+describe("mediaMaxMb", () => {
+    const config = { appId: "cli_test", appSecret: "secret", mediaMaxMb: 1 } as Config;
+
+    it("defaults to 30 MB", () => {
+        expect(getMediaMaxBytes({} as Config)).toBe(30 * 1024 * 1024);
+        expect(getMediaMaxBytes(config)).toBe(1024 * 1024);
+    });
+
+    it("refuses oversized buffers before uploading", async () => {
+        const send = sendMedia(config, {
+            to: "oc_chat",
+            mediaBuffer: Buffer.alloc(1024 * 1024 + 1),
+            fileName: "report.pdf",
+        });
+
+        await expect(send).rejects.toBeInstanceOf(MediaTooLargeError);
+        await expect(send).rejects.toThrow("exceeds the 1 MB limit");
+    });
+
+    it("compresses oversized image buffers", async () => {
+        await vi.dynamicImportSettled();
+        const { images, messages } = stubClient(config);
+
+        await sendMedia(config, {
+            to: "oc_chat",
+            mediaBuffer: Buffer.alloc(1024 * 1024 + 1),
+            fileName: "chart.png",
+        });
+
+        expect(optimized.at(-1)).toMatchObject({ size: 1024 * 1024 + 1 });
+        expect(optimized.at(-1)?.source).toMatch(/\.png$/);
+        expect(fs.existsSync(optimized.at(-1)?.source ?? "")).toBe(false);
+        expect(images).toHaveLength(1);
+        expect(messages.at(-1)).toMatchObject({ msg_type: "image" });
+    });
+
+    it("refuses oversized local files", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-media-limit-"));
+        const filePath = path.join(dir, "big.bin");
+        fs.writeFileSync(filePath, Buffer.alloc(2 * 1024 * 1024));
+
+        try {
+            await expect(sendMedia(config, { to: "oc_chat", mediaUrl: filePath })).rejects.toThrow(
+                MediaTooLargeError
+            );
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+/** Minimal Ogg page: header with granule position, then the payload */
+const oggPage = (granule: bigint, payload: Buffer) => {
+    const header = Buffer.alloc(27);
+    header.write("OggS", 0, "latin1");
+    header.writeBigInt64LE(granule, 6);
+    return Buffer.concat([header, payload]);
+};
+const opusHead = (preSkip: number) => {
+    const head = Buffer.alloc(19);
+    head.write("OpusHead", 0, "latin1");
+    head.writeUInt16LE(preSkip, 10);
+    return head;
+};
+
+describe("getOpusDuration", () => {
+    it("reads the duration from the last page", () => {
+        const buffer = Buffer.concat([
+            oggPage(0n, opusHead(312)),
+            oggPage(48000n, Buffer.alloc(10)),
+            oggPage(2n * 48000n + 312n, Buffer.alloc(10)),
+        ]);
+        expect(getOpusDuration(buffer)).toBe(2000);
+    });
+
+    it("skips pages without a granule position", () => {
+        const buffer = Buffer.concat([
+            oggPage(0n, opusHead(0)),
+            oggPage(24000n, Buffer.alloc(10)),
+            oggPage(-1n, Buffer.alloc(10)),
+        ]);
+        expect(getOpusDuration(buffer)).toBe(500);
+    });
+
+    it("returns undefined for other formats", () => {
+        expect(getOpusDuration(Buffer.from("ID3 not an ogg file at all, just text"))).toBeUndefined();
+        expect(getOpusDuration(oggPage(100n, Buffer.from("vorbis")))).toBeUndefined();
+    });
+});
+
+/** Minimal MP4: ftyp and a moov box holding an mvhd header */
+const mp4 = (version: 0 | 1, timescale: number, duration: number) => {
+    const mvhd = Buffer.alloc(version === 1 ? 40 : 28);
+    mvhd.write("mvhd", 4, "latin1");
+    mvhd[8] = version;
+    const timescaleOffset = version === 1 ? 28 : 20;
+    mvhd.writeUInt32BE(timescale, timescaleOffset);
+    if (version === 1) mvhd.writeBigUInt64BE(BigInt(duration), timescaleOffset + 4);
+    else mvhd.writeUInt32BE(duration, timescaleOffset + 4);
+    const moov = Buffer.concat([Buffer.from("\0\0\0\0moov", "latin1"), mvhd]);
+    return Buffer.concat([Buffer.from("\0\0\0\x10ftypisom\0\0\0\0", "latin1"), moov]);
+};
+
+describe("getMp4Duration", () => {
+    it("reads version 0 and 1 movie headers", () => {
+        expect(getMp4Duration(mp4(0, 1000, 5000))).toBe(5000);
+        expect(getMp4Duration(mp4(1, 600, 9000))).toBe(15000);
+    });
+
+    it("returns undefined without a movie header", () => {
+        expect(getMp4Duration(Buffer.from("not a video"))).toBeUndefined();
+    });
+});
+
+/** Stub the SDK client's upload and send calls, recording their payloads */
+const stubClient = (config: Config) => {
+    const uploads: Record<string, unknown>[] = [];
+    const images: Record<string, unknown>[] = [];
+    const messages: Record<string, unknown>[] = [];
+    const client = getApiClient(config) as unknown as {
+        im: { file: { create: unknown }; image: { create: unknown }; message: { create: unknown } };
+    };
+    client.im.file.create = async (payload: { data: Record<string, unknown> }) => {
+        uploads.push(payload.data);
+        return { code: 0, data: { file_key: "file_uploaded" } };
+    };
+    client.im.image.create = async (payload: { data: Record<string, unknown> }) => {
+        images.push(payload.data);
+        return { code: 0, data: { image_key: "img_cover" } };
+    };
+    client.im.message.create = async (payload: { data: Record<string, unknown> }) => {
+        messages.push(payload.data);
+        return { code: 0, data: { message_id: "om_sent" } };
+    };
+    return { uploads, images, messages };
+};
+
+describe("sendMedia with audio", () => {
+    const config = { appId: "cli_audio_test", appSecret: "secret" } as Config;
+    const { uploads, messages } = stubClient(config);
+
+    it("sends Opus as a voice message with its duration", async () => {
+        const opus = Buffer.concat([oggPage(0n, opusHead(0)), oggPage(96000n, Buffer.alloc(10))]);
+        await sendMedia(config, { to: "oc_chat", mediaBuffer: opus, fileName: "reply.ogg" });
+
+        expect(uploads.at(-1)).toMatchObject({ file_type: "opus", file_name: "reply.opus", duration: 2000 });
+        expect(messages.at(-1)).toMatchObject({ msg_type: "audio", content: '{"file_key":"file_uploaded"}' });
+    });
+
+    it("falls back to a file when the audio cannot be converted", async () => {
+        await sendMedia(config, { to: "oc_chat", mediaBuffer: Buffer.from("not audio"), fileName: "reply.wav" });
+
+        expect(uploads.at(-1)).toMatchObject({ file_type: "stream", file_name: "reply.wav" });
+        expect(messages.at(-1)).toMatchObject({ msg_type: "file" });
+    });
+});
+
+describe("sendMedia with video", () => {
+    const config = { appId: "cli_video_test", appSecret: "secret" } as Config;
+    const { uploads, images, messages } = stubClient(config);
+
+    it("sends a media message with the given cover and duration", async () => {
+        await sendMedia(config, {
+            to: "oc_chat",
+            mediaBuffer: mp4(0, 1000, 12000),
+            fileName: "clip.mp4",
+            cover: Buffer.from("jpeg"),
+        });
+
+        expect(images).toHaveLength(1);
+        expect(uploads.at(-1)).toMatchObject({ file_type: "mp4", file_name: "clip.mp4", duration: 12000 });
+        expect(messages.at(-1)).toMatchObject({
+            msg_type: "media",
+            content: '{"file_key":"file_uploaded","image_key":"img_cover"}',
+        });
+    });
+
+    it("sends other containers as files", async () => {
+        await sendMedia(config, {
+            to: "oc_chat",
+            mediaBuffer: Buffer.from("quicktime"),
+            fileName: "clip.mov",
+            cover: Buffer.from("jpeg"),
+        });
+
+        expect(uploads.at(-1)).toMatchObject({ file_name: "clip.mov" });
+        expect(messages.at(-1)).toMatchObject({ msg_type: "file" });
+    });
+
+    it("refuses an oversized local cover", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-media-cover-"));
+        const coverPath = path.join(dir, "cover.jpg");
+        fs.writeFileSync(coverPath, Buffer.alloc(1024 * 1024 + 1));
+
+        try {
+            const send = sendMedia(
+                { ...config, mediaMaxMb: 1 },
+                { to: "oc_chat", mediaBuffer: mp4(0, 1000, 12000), fileName: "clip.mp4", cover: coverPath }
+            );
+            await expect(send).rejects.toThrow(MediaTooLargeError);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("falls back to a file when no cover can be made", async () => {
+        await sendMedia(config, { to: "oc_chat", mediaBuffer: Buffer.from("not a video"), fileName: "clip.mp4" });
+
+        expect(uploads.at(-1)).toMatchObject({ file_type: "mp4", file_name: "clip.mp4" });
+        expect(messages.at(-1)).toMatchObject({ msg_type: "file" });
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for api/rate-limit.ts
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+    scheduleOutbound,
+    getRetryHint,
+    resetOutboundScheduler,
+} from "../../../dist/api/rate-limit.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+const config = {
+    appId: "app_main",
+    appSecret: "secret_main",
+    domain: "feishu",
+    rateLimit: { appQps: 1000, chatQps: 1000, maxRetries: 2, baseDelayMs: 1 },
+} as Config;
+
+describe("getRetryHint", () => {
+    it("flags frequency-limit codes in responses", () => {
+        expect(getRetryHint({ code: 230020 }).retryable).toBe(true);
+        expect(getRetryHint({ code: 99991400 }).retryable).toBe(true);
+        expect(getRetryHint({ code: 0 }).retryable).toBe(false);
+        expect(getRetryHint({ code: 230001 }).retryable).toBe(false);
+    });
+
+    it("reads HTTP 429 and the reset header from thrown errors", () => {
+        const hint = getRetryHint({
+            response: { status: 429, headers: { "x-ogw-ratelimit-reset": "2" } },
+        });
+        expect(hint).toEqual({ retryable: true, retryAfterMs: 2000 });
+    });
+});
+
+describe("scheduleOutbound", () => {
+    beforeEach(() => {
+        resetOutboundScheduler();
+    });
+
+    it("retries rate-limited responses until success", async () => {
+        let calls = 0;
+        const result = await scheduleOutbound(config, { target: "oc_1" }, async () => {
+            calls++;
+            return calls < 2 ? { code: 230020 } : { code: 0 };
+        });
+
+        expect(result).toEqual({ code: 0 });
+        expect(calls).toBe(2);
+    });
+
+    it("returns other errors without retrying", async () => {
+        let calls = 0;
+        const result = await scheduleOutbound(config, {}, async () => {
+            calls++;
+            return { code: 230001, msg: "invalid" };
+        });
+
+        expect(result.code).toBe(230001);
+        expect(calls).toBe(1);
+    });
+
+    it("retries thrown 429 errors and gives up after maxRetries", async () => {
+        let calls = 0;
+        const error = { response: { status: 429 } };
+        await expect(
+            scheduleOutbound(config, { target: "oc_1" }, async () => {
+                calls++;
+                throw error;
+            })
+        ).rejects.toBe(error);
+        expect(calls).toBe(3);
+    });
+
+    it("keeps calls to the same chat in order", async () => {
+        const order: number[] = [];
+        let limited = true;
+        const first = scheduleOutbound(config, { target: "oc_1" }, async () => {
+            if (limited) {
+                limited = false;
+                return { code: 99991400 };
+            }
+            order.push(1);
+            return { code: 0 };
+        });
+        const second = scheduleOutbound(config, { target: "oc_1" }, async () => {
+            order.push(2);
+            return { code: 0 };
+        });
+
+        await Promise.all([first, second]);
+        expect(order).toEqual([1, 2]);
+    });
+
+    it("continues the chain after a failed call", async () => {
+        const failing = scheduleOutbound(config, { target: "oc_2" }, async () => {
+            throw new Error("boom");
+        });
+        const next = scheduleOutbound(config, { target: "oc_2" }, async () => "ok");
+
+        await expect(failing).rejects.toThrow("boom");
+        await expect(next).resolves.toBe("ok");
+    });
+});
@@ -3,7 +3,12 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { ConfigSchema, DmPolicySchema, GroupPolicySchema } from "../../../dist/config/schema.js";
+import {
+    ConfigSchema,
+    DmPolicySchema,
+    GroupPolicySchema,
+    mergeAccountConfig,
+} from "../../../dist/config/schema.js";
 
 describe("DmPolicySchema", () => {
     it("accepts valid values", () => {
@@ -60,4 +65,96 @@ describe("ConfigSchema", () => {
     it("rejects invalid dmPolicy", () => {
         expect(() => ConfigSchema.parse({ dmPolicy: "unknown" })).toThrow();
     });
+
+    it("accepts webhook connection settings", () => {
+        const result = ConfigSchema.parse({
+            connectionMode: "webhook",
+            webhookPort: 8080,
+            webhookPath: "/feishu/events",
+            encryptKey: "key",
+            verificationToken: "token",
+        });
+        expect(result.connectionMode).toBe("webhook");
+        expect(result.webhookPort).toBe(8080);
+    });
+
+    it("rejects a webhookPath without a leading slash", () => {
+        expect(() => ConfigSchema.parse({ webhookPath: "feishu/events" })).toThrow();
+    });
+
+    it("validates command policies", () => {
+        const result = ConfigSchema.parse({
+            commands: { admins: ["ou_admin"], policy: { pause: "everyone", "*": "admins" } },
+        });
+        expect(result.commands?.policy?.["*"]).toBe("admins");
+        expect(() => ConfigSchema.parse({ commands: { policy: { reset: "owner" } } })).toThrow();
+    });
+
+    it("validates trigger patterns", () => {
+        const result = ConfigSchema.parse({
+            triggers: { patterns: ["^/ask\\b"] },
+            groups: { oc_test: { triggers: { questions: true } } },
+        });
+        expect(result.groups?.["oc_test"]?.triggers?.questions).toBe(true);
+        expect(() => ConfigSchema.parse({ triggers: { patterns: ["(unclosed"] } })).toThrow();
+    });
+
+    it("validates reaction commands", () => {
+        const result = ConfigSchema.parse({
+            reactions: { mode: "agent", commands: { THUMBSDOWN: "regenerate", DONE: "resolve" } },
+        });
+        expect(result.reactions?.commands?.THUMBSDOWN).toBe("regenerate");
+        expect(() => ConfigSchema.parse({ reactions: { commands: { OK: "delete" } } })).toThrow();
+    });
+});
+
+describe("mergeAccountConfig", () => {
+    const config = ConfigSchema.parse({
+        appId: "app_base",
+        appSecret: "secret_base",
+        groupPolicy: "open",
+        groups: { oc_shared: { requireMention: true } },
+        accounts: {
+            support: {
+                appId: "app_support",
+                appSecret: "secret_support",
+                domain: "lark",
+                dmPolicy: "allowlist",
+                allowFrom: ["ou_admin"],
+                groups: { oc_support: { requireMention: false } },
+            },
+        },
+    });
+
+    it("returns undefined without config", () => {
+        expect(mergeAccountConfig(undefined, "support")).toBeUndefined();
+    });
+
+    it("uses base credentials for the default account", () => {
+        const merged = mergeAccountConfig(config, undefined);
+        expect(merged?.appId).toBe("app_base");
+        expect(merged?.appSecret).toBe("secret_base");
+        expect(merged?.accounts).toBeUndefined();
+    });
+
+    it("applies account credentials and overrides", () => {
+        const merged = mergeAccountConfig(config, "Support");
+        expect(merged?.appId).toBe("app_support");
+        expect(merged?.appSecret).toBe("secret_support");
+        expect(merged?.domain).toBe("lark");
+        expect(merged?.dmPolicy).toBe("allowlist");
+        expect(merged?.allowFrom).toEqual(["ou_admin"]);
+        expect(merged?.accounts).toBeUndefined();
+    });
+
+    it("inherits unset fields from base config", () => {
+        const merged = mergeAccountConfig(config, "support");
+        expect(merged?.groupPolicy).toBe("open");
+    });
+
+    it("merges group configs", () => {
+        const merged = mergeAccountConfig(config, "support");
+        expect(merged?.groups?.["oc_shared"]?.requireMention).toBe(true);
+        expect(merged?.groups?.["oc_support"]?.requireMention).toBe(false);
+    });
 });
@@ -325,6 +325,73 @@ describe("BatchProcessor", () => {
     });
   });
 
+  describe("removeMessage", () => {
+    it("drops a recalled message from the batch", async () => {
+      const onFlush = vi.fn();
+      const processor = new BatchProcessor({
+        cfg: { channels: { feishu: {} } } as never,
+        chatHistories: new Map(),
+        onFlush,
+      });
+      await vi.advanceTimersByTimeAsync(11_000);
+
+      const event = createMockEvent();
+      const recalled = createMockParsedMessage({ content: "oops" });
+      processor.processMessage(recalled, event);
+      processor.processMessage(createMockParsedMessage({ mentionedBot: true }), event);
+
+      expect(processor.removeMessage(recalled.messageId)).toBe(true);
+      expect(processor.removeMessage(recalled.messageId)).toBe(false);
+      await vi.advanceTimersByTimeAsync(2_500);
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      expect(onFlush.mock.calls[0][0].messages).toHaveLength(1);
+
+      processor.dispose();
+    });
+
+    it("falls back to an earlier trigger when the trigger is recalled", async () => {
+      const onFlush = vi.fn();
+      const processor = new BatchProcessor({
+        cfg: { channels: { feishu: {} } } as never,
+        chatHistories: new Map(),
+        onFlush,
+      });
+      await vi.advanceTimersByTimeAsync(11_000);
+
+      const event = createMockEvent();
+      const first = createMockParsedMessage({ mentionedBot: true, content: "first" });
+      const second = createMockParsedMessage({ mentionedBot: true, content: "second" });
+      processor.processMessage(first, event);
+      processor.processMessage(second, event);
+      processor.removeMessage(second.messageId);
+      await vi.advanceTimersByTimeAsync(2_500);
+
+      expect(onFlush.mock.calls[0][0].triggerMessage.parsed.content).toBe("first");
+
+      processor.dispose();
+    });
+
+    it("cancels the flush when the only trigger is recalled", async () => {
+      const onFlush = vi.fn();
+      const processor = new BatchProcessor({
+        cfg: { channels: { feishu: {} } } as never,
+        chatHistories: new Map(),
+        onFlush,
+      });
+      await vi.advanceTimersByTimeAsync(11_000);
+
+      const trigger = createMockParsedMessage({ mentionedBot: true });
+      processor.processMessage(trigger, createMockEvent());
+      processor.removeMessage(trigger.messageId);
+      await vi.advanceTimersByTimeAsync(15_000);
+
+      expect(onFlush).not.toHaveBeenCalled();
+
+      processor.dispose();
+    });
+  });
+
   describe("dispose", () => {
     it("clears all timers and state", async () => {
       const onFlush = vi.fn();
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for core/commands.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseCommand,
+  isLocalCommand,
+  resolveCommandPolicy,
+  isCommandAuthorized,
+  runLocalCommand,
+} from "../../../dist/core/commands.js";
+import type { Config } from "../../../dist/config/schema.js";
+import type { ParsedMessage } from "../../../dist/types/index.js";
+
+const parsed: ParsedMessage = {
+  chatId: "oc_group",
+  messageId: "om_1",
+  senderId: "u_1",
+  senderOpenId: "ou_1",
+  senderName: "Alice",
+  chatType: "group",
+  mentionedBot: true,
+  content: "/pause",
+  contentType: "text",
+};
+
+describe("parseCommand", () => {
+  it("parses the name and arguments", () => {
+    expect(parseCommand("/model  gpt-4o ")).toEqual({
+      name: "model",
+      args: "gpt-4o",
+      text: "/model  gpt-4o",
+    });
+    expect(parseCommand("/Reset")).toEqual({ name: "reset", args: "", text: "/Reset" });
+  });
+
+  it("tolerates a leading bot mention", () => {
+    expect(parseCommand('<at user_id="self">你</at> /help')?.name).toBe("help");
+    expect(parseCommand("@_user_1 /status")?.text).toBe("/status");
+  });
+
+  it("ignores other messages", () => {
+    expect(parseCommand("hello /reset")).toBeNull();
+    expect(parseCommand("/")).toBeNull();
+    expect(parseCommand("/tmp/file.txt")).toBeNull();
+    expect(parseCommand('<at user_id="ou_2">Bob</at> /reset')).toBeNull();
+  });
+});
+
+describe("resolveCommandPolicy", () => {
+  it("uses the defaults", () => {
+    expect(resolveCommandPolicy(undefined, "feishu")).toBe("everyone");
+    expect(resolveCommandPolicy(undefined, "pause")).toBe("admins");
+    expect(resolveCommandPolicy(undefined, "model")).toBe("everyone");
+  });
+
+  it("applies configured policies", () => {
+    const config = { commands: { policy: { pause: "everyone", "*": "admins" } } } as Config;
+    expect(resolveCommandPolicy(config, "pause")).toBe("everyone");
+    expect(resolveCommandPolicy(config, "clear")).toBe("admins");
+    expect(resolveCommandPolicy(config, "reset")).toBe("admins");
+  });
+
+  it("treats local commands as agent commands when disabled", () => {
+    const config = { commands: { enabled: false, policy: { "*": "nobody" } } } as Config;
+    expect(isLocalCommand(config, "pause")).toBe(false);
+    expect(resolveCommandPolicy(config, "pause")).toBe("nobody");
+  });
+});
+
+describe("isCommandAuthorized", () => {
+  it("checks admins, falling back to allowFrom", () => {
+    expect(isCommandAuthorized({ commands: { admins: ["ou_1"] } } as Config, "pause", parsed)).toBe(
+      true
+    );
+    expect(isCommandAuthorized({ allowFrom: ["alice"] } as Config, "pause", parsed)).toBe(true);
+    expect(isCommandAuthorized({ allowFrom: ["u_1"] } as Config, "pause", parsed)).toBe(true);
+    expect(isCommandAuthorized({ allowFrom: ["ou_2"] } as Config, "pause", parsed)).toBe(false);
+    expect(isCommandAuthorized(undefined, "pause", parsed)).toBe(false);
+  });
+
+  it("falls back to the group's allowFrom in groups", () => {
+    const config = { allowFrom: [], groups: { oc_group: { allowFrom: ["ou_1"] } } } as Config;
+    expect(isCommandAuthorized(config, "pause", parsed)).toBe(true);
+    expect(isCommandAuthorized(config, "pause", { ...parsed, chatId: "oc_other" })).toBe(false);
+    const wildcard = { groups: { "*": { allowFrom: ["alice"] } } } as unknown as Config;
+    expect(isCommandAuthorized(wildcard, "pause", { ...parsed, chatId: "oc_other" })).toBe(true);
+    expect(isCommandAuthorized(wildcard, "pause", { ...parsed, chatType: "p2p" })).toBe(false);
+  });
+
+  it("lets nobody run admins commands when no allowFrom is set", () => {
+    const config = { dmPolicy: "pairing", groupPolicy: "open", allowFrom: [] } as unknown as Config;
+    for (const name of ["clear", "pause", "resume"]) {
+      expect(isCommandAuthorized(config, name, parsed)).toBe(false);
+    }
+    expect(isCommandAuthorized(config, "feishu", parsed)).toBe(true);
+    const open = { ...config, commands: { policy: { pause: "everyone" } } } as Config;
+    expect(isCommandAuthorized(open, "pause", parsed)).toBe(true);
+  });
+
+  it("honors everyone and nobody", () => {
+    expect(isCommandAuthorized(undefined, "reset", parsed)).toBe(true);
+    const config = { allowFrom: ["*"], commands: { policy: { model: "nobody" } } } as Config;
+    expect(isCommandAuthorized(config, "model", parsed)).toBe(false);
+  });
+});
+
+describe("runLocalCommand", () => {
+  it("pauses, resumes and reports the chat status", () => {
+    const pausedChats = new Set<string>();
+    const ctx = { accountId: "default", parsed, pausedChats, historyKey: "oc_group" };
+
+    runLocalCommand("pause", ctx);
+    expect(pausedChats.has("oc_group")).toBe(true);
+    expect(runLocalCommand("feishu", ctx)).toContain("Status: paused");
+
+    runLocalCommand("resume", ctx);
+    expect(pausedChats.has("oc_group")).toBe(false);
+    expect(runLocalCommand("feishu", ctx)).toContain("Status: active");
+  });
+
+  it("clears the pending history", () => {
+    const chatHistories = new Map([["oc_group", [{}, {}]]]);
+    const ctx = {
+      accountId: "default",
+      parsed,
+      pausedChats: new Set<string>(),
+      chatHistories,
+      historyKey: "oc_group",
+    };
+
+    expect(runLocalCommand("clear", ctx)).toBe("Cleared 2 pending messages.");
+    expect(chatHistories.has("oc_group")).toBe(false);
+  });
+});
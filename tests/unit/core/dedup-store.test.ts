@@ -0,0 +1,111 @@
+/**
+ * Unit tests for core/dedup-store.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+    MemoryDedupStore,
+    FileDedupStore,
+    createDedupStore,
+} from "../../../dist/core/dedup-store.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+describe("MemoryDedupStore", () => {
+    it("tracks processed events", () => {
+        const store = new MemoryDedupStore();
+        expect(store.hasEvent("ev_1")).toBe(false);
+        store.markEvent("ev_1", Date.now());
+        expect(store.hasEvent("ev_1")).toBe(true);
+        expect(store.persistent).toBe(false);
+    });
+
+    it("only moves watermarks forward", () => {
+        const store = new MemoryDedupStore();
+        expect(store.getWatermark("oc_1")).toBe(0);
+        store.setWatermark("oc_1", 200);
+        store.setWatermark("oc_1", 100);
+        expect(store.getWatermark("oc_1")).toBe(200);
+    });
+
+    it("prunes events older than the cutoff", () => {
+        const store = new MemoryDedupStore();
+        store.markEvent("old", 100);
+        store.markEvent("new", 300);
+        store.prune(200);
+        expect(store.hasEvent("old")).toBe(false);
+        expect(store.hasEvent("new")).toBe(true);
+    });
+});
+
+describe("FileDedupStore", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-dedup-"));
+        filePath = path.join(dir, "dedup-default.json");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("survives a restart", async () => {
+        const first = new FileDedupStore(filePath);
+        first.markEvent("ev_1", Date.now());
+        first.setWatermark("oc_1", 1234);
+        await first.close();
+
+        const second = new FileDedupStore(filePath);
+        expect(second.persistent).toBe(true);
+        expect(second.hasEvent("ev_1")).toBe(true);
+        expect(second.getWatermark("oc_1")).toBe(1234);
+        await second.close();
+    });
+
+    it("writes changes after the flush delay", async () => {
+        const store = new FileDedupStore(filePath, { flushDelayMs: 10 });
+        store.markEvent("ev_1", 1);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+        expect(data.events).toEqual({ ev_1: 1 });
+        await store.close();
+    });
+
+    it("starts fresh from a corrupt file", async () => {
+        fs.writeFileSync(filePath, "{not json");
+        const store = new FileDedupStore(filePath);
+        expect(store.hasEvent("ev_1")).toBe(false);
+        await store.close();
+    });
+
+    it("ignores repeated close calls", async () => {
+        const store = new FileDedupStore(filePath);
+        store.markEvent("ev_1", 1);
+        await store.close();
+        await store.close();
+
+        expect(new FileDedupStore(filePath).hasEvent("ev_1")).toBe(true);
+    });
+});
+
+describe("createDedupStore", () => {
+    it("returns a memory store when configured", () => {
+        const store = createDedupStore({ dedupStore: { type: "memory" } } as Config, "default");
+        expect(store.persistent).toBe(false);
+    });
+
+    it("returns a per-account file store by default", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-dedup-"));
+        const store = createDedupStore({ dedupStore: { dir } } as Config, "support");
+        store.markEvent("ev_1", 1);
+        await store.close();
+
+        expect(fs.existsSync(path.join(dir, "dedup-support.json"))).toBe(true);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+});
@@ -0,0 +1,263 @@
+/**
+ * Unit tests for core/handler.ts (dispatch to the agent with a stubbed runtime)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createBatchFlushHandler,
+  handleCardAction,
+  handleMessage,
+  handleReaction,
+} from "../../../dist/core/handler.js";
+import { ReplyTracker } from "../../../dist/core/reply-tracker.js";
+import { initializeRuntime } from "../../../dist/core/runtime.js";
+import { getApiClient } from "../../../dist/api/client.js";
+import type { Config } from "../../../dist/config/schema.js";
+import type { ParsedMessage, MessageReceivedEvent } from "../../../dist/types/index.js";
+
+const historyLimits = vi.hoisted(() => [] as number[]);
+
+vi.mock("openclaw/plugin-sdk", () => ({
+  DEFAULT_GROUP_HISTORY_LIMIT: 50,
+  buildPendingHistoryContextFromMap: (p: { currentMessage: string; limit: number }) => {
+    historyLimits.push(p.limit);
+    return p.currentMessage;
+  },
+  recordPendingHistoryEntryIfEnabled: () => [],
+  clearHistoryEntriesIfEnabled: () => undefined,
+}));
+
+vi.mock("../../../dist/core/reply-dispatcher.js", () => ({
+  createReplyDispatcher: () => ({
+    dispatcher: {},
+    replyOptions: {},
+    markDispatchIdle: () => undefined,
+  }),
+}));
+
+// Stubbed runtime recording what reaches the agent
+
+let finalized: Record<string, unknown>[] = [];
+let dispatched: { replyOptions: Record<string, unknown> }[] = [];
+
+function stubRuntime(): void {
+  finalized = [];
+  dispatched = [];
+  initializeRuntime({
+    channel: {
+      routing: {
+        resolveAgentRoute: () => ({
+          sessionKey: "agent:main:feishu",
+          accountId: "default",
+          agentId: "main",
+        }),
+      },
+      reply: {
+        resolveEnvelopeFormatOptions: () => ({}),
+        formatAgentEnvelope: (p: { body: string }) => p.body,
+        finalizeInboundContext: (ctx: Record<string, unknown>) => {
+          finalized.push(ctx);
+          return ctx;
+        },
+        dispatchReplyFromConfig: async (p: { replyOptions: Record<string, unknown> }) => {
+          dispatched.push(p);
+          return { queuedFinal: true, counts: { final: 1 } };
+        },
+      },
+    },
+  } as never);
+}
+
+const silent = { log: () => undefined, error: () => undefined };
+
+function message(overrides: Partial<ParsedMessage> = {}) {
+  const parsed: ParsedMessage = {
+    chatId: "oc_group",
+    messageId: "om_1",
+    senderId: "ou_alice",
+    senderOpenId: "ou_alice",
+    senderName: "Alice",
+    chatType: "group",
+    mentionedBot: true,
+    content: "hello",
+    contentType: "text",
+    ...overrides,
+  };
+  return { parsed, event: {} as MessageReceivedEvent };
+}
+
+function flush(
+  feishu: Partial<Config>,
+  overrides: { pausedChats?: Set<string> } = {},
+  parsed: Partial<ParsedMessage> = {}
+) {
+  const onFlush = createBatchFlushHandler({
+    cfg: {
+      channels: { feishu: { appId: "cli_handler", appSecret: "secret", ...feishu } },
+    } as never,
+    runtime: silent as never,
+    chatHistories: new Map(),
+    ...overrides,
+  });
+  const triggerMessage = message(parsed);
+  return onFlush({ messages: [triggerMessage], triggerMessage, isAutoReply: false } as never);
+}
+
+describe("dispatch", () => {
+  beforeEach(stubRuntime);
+
+  it("dispatches a flushed batch", async () => {
+    await flush({});
+    expect(finalized).toHaveLength(1);
+    expect(dispatched).toHaveLength(1);
+  });
+
+  it("skips chats paused with /pause", async () => {
+    await flush({}, { pausedChats: new Set(["oc_group"]) });
+    expect(finalized).toHaveLength(0);
+    expect(dispatched).toHaveLength(0);
+  });
+
+  it("uses the DM history limit for DMs and the group limit for groups", async () => {
+    historyLimits.length = 0;
+    await flush({ historyLimit: 20, dmHistoryLimit: 5 }, {}, { chatType: "p2p", chatId: "oc_dm" });
+    await flush({ historyLimit: 20, dmHistoryLimit: 5 });
+    expect(historyLimits).toEqual([5, 20]);
+  });
+});
+
+describe("per-chat settings", () => {
+  beforeEach(stubRuntime);
+
+  it("passes the group's system prompt and skills to the agent", async () => {
+    await flush({
+      groups: { oc_group: { systemPrompt: "Answer in French.", skills: ["search"] } },
+    });
+
+    expect(finalized[0]).toMatchObject({ GroupSystemPrompt: "Answer in French." });
+    expect(dispatched[0]?.replyOptions).toMatchObject({ skillFilter: ["search"] });
+  });
+
+  it("falls back to the wildcard group", async () => {
+    await flush({ groups: { "*": { systemPrompt: "Be brief." } } });
+
+    expect(finalized[0]).toMatchObject({ GroupSystemPrompt: "Be brief." });
+    expect(dispatched[0]?.replyOptions.skillFilter).toBeUndefined();
+  });
+
+  it("does not dispatch in disabled chats", async () => {
+    await flush({ groups: { oc_group: { enabled: false } } });
+
+    expect(finalized).toHaveLength(0);
+    expect(dispatched).toHaveLength(0);
+  });
+
+  /** Record the API calls made with an app's client */
+  function recordApiCalls(config: { appId: string; appSecret: string }) {
+    const apiCalls: string[] = [];
+    const record =
+      (name: string, data: unknown = {}) =>
+      async () => {
+        apiCalls.push(name);
+        return { code: 0, data };
+      };
+    const client = getApiClient(config as Config) as unknown as {
+      contact: { user: { get: unknown } };
+      im: { message: Record<string, unknown>; chat: { get: unknown } };
+    };
+    client.contact.user.get = record("contact.user.get");
+    client.im.message.create = record("im.message.create");
+    client.im.message.reply = record("im.message.reply");
+    client.im.message.list = record("im.message.list");
+    client.im.message.get = record("im.message.get");
+    client.im.chat.get = record("im.chat.get", { chat_mode: "group" });
+    return apiCalls;
+  }
+
+  it("ignores messages in disabled chats before commands, lookups and backfill", async () => {
+    const config = { appId: "cli_handler_disabled", appSecret: "secret" };
+    const apiCalls = recordApiCalls(config);
+
+    await handleMessage({
+      cfg: {
+        channels: {
+          feishu: {
+            ...config,
+            dmPolicy: "open",
+            dmHistoryLimit: 10,
+            dms: { ou_alice: { enabled: false } },
+          },
+        },
+      } as never,
+      event: {
+        sender: { sender_id: { open_id: "ou_alice" } },
+        message: {
+          message_id: "om_1",
+          chat_id: "oc_dm",
+          chat_type: "p2p",
+          message_type: "text",
+          content: JSON.stringify({ text: "/feishu" }),
+        },
+      } as MessageReceivedEvent,
+      runtime: silent as never,
+      chatHistories: new Map(),
+      backfilledChats: new Set(),
+    });
+
+    expect(apiCalls).toEqual([]);
+    expect(finalized).toHaveLength(0);
+  });
+
+  it("ignores reactions in disabled chats before any lookup", async () => {
+    const config = { appId: "cli_handler_disabled_reaction", appSecret: "secret" };
+    const apiCalls = recordApiCalls(config);
+    const replyTracker = new ReplyTracker();
+    replyTracker.track(message().parsed);
+    replyTracker.addReply("om_1", { messageId: "om_reply", msgType: "text" });
+
+    await handleReaction({
+      cfg: {
+        channels: {
+          feishu: {
+            ...config,
+            groups: { oc_group: { enabled: false } },
+            reactions: { mode: "agent", commands: { THUMBSDOWN: "regenerate" } },
+          },
+        },
+      } as never,
+      event: {
+        message_id: "om_reply",
+        reaction_type: { emoji_type: "THUMBSDOWN" },
+        operator_type: "user",
+        user_id: { open_id: "ou_alice" },
+      },
+      action: "created",
+      runtime: silent as never,
+      replyTracker,
+    });
+
+    expect(apiCalls).toEqual([]);
+    expect(finalized).toHaveLength(0);
+  });
+
+  it("ignores card actions in disabled chats before the sender lookup", async () => {
+    const config = { appId: "cli_handler_disabled_card", appSecret: "secret" };
+    const apiCalls = recordApiCalls(config);
+
+    await handleCardAction({
+      cfg: {
+        channels: { feishu: { ...config, groups: { oc_card: { enabled: false } } } },
+      } as never,
+      event: {
+        operator: { open_id: "ou_alice" },
+        action: { tag: "button", value: { action: "approve" } },
+        context: { open_message_id: "om_card", open_chat_id: "oc_card" },
+      },
+      runtime: silent as never,
+    });
+
+    // Only the chat type, which picks the group or DM settings
+    expect(apiCalls).toEqual(["im.chat.get"]);
+    expect(finalized).toHaveLength(0);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for core/history-backfill.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  backfillHistory,
+  fetchHistoryEntries,
+  formatHistoryContent,
+} from "../../../dist/core/history-backfill.js";
+import { getApiClient } from "../../../dist/api/client.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+const config = { appId: "cli_backfill", appSecret: "secret" } as Config;
+
+interface ListRequest {
+  params: { container_id: string; page_size: number; page_token?: string };
+}
+
+// Newest first, as the API returns them
+const items = [
+  {
+    message_id: "om_new",
+    msg_type: "text",
+    body: { content: '{"text":"later"}' },
+    create_time: "5000",
+  },
+  {
+    message_id: "om_current",
+    msg_type: "text",
+    body: { content: '{"text":"now"}' },
+    create_time: "4000",
+  },
+  {
+    message_id: "om_bot",
+    msg_type: "post",
+    body: {
+      content: JSON.stringify({ title: "Answer", content: [[{ tag: "text", text: "Hi" }]] }),
+    },
+    sender: { id: "cli_backfill", id_type: "app_id", sender_type: "app" },
+    create_time: "3000",
+  },
+  {
+    message_id: "om_deleted",
+    msg_type: "text",
+    body: { content: "" },
+    deleted: true,
+    create_time: "2500",
+  },
+  {
+    message_id: "om_image",
+    msg_type: "image",
+    body: { content: '{"image_key":"img_1"}' },
+    create_time: "2000",
+  },
+  {
+    message_id: "om_first",
+    msg_type: "text",
+    body: { content: '{"text":"hello"}' },
+    create_time: "1000",
+  },
+].map((item) => ({
+  sender: { id: "ou_user", id_type: "open_id", sender_type: "user" },
+  chat_id: "oc_dm",
+  ...item,
+}));
+
+const requests: ListRequest[] = [];
+const client = getApiClient(config) as unknown as {
+  im: { message: { list: unknown } };
+  contact: { user: { get: unknown } };
+};
+client.im.message.list = async (payload: ListRequest) => {
+  requests.push(payload);
+  const start = Number(payload.params.page_token ?? 0);
+  const end = start + payload.params.page_size;
+  const hasMore = end < items.length;
+  return {
+    code: 0,
+    data: {
+      items: items.slice(start, end),
+      has_more: hasMore,
+      page_token: hasMore ? String(end) : undefined,
+    },
+  };
+};
+client.contact.user.get = async () => ({
+  code: 0,
+  data: { user: { open_id: "ou_user", name: "Alice" } },
+});
+
+const current = { chatId: "oc_dm", messageId: "om_current", createTime: 4000 };
+
+describe("formatHistoryContent", () => {
+  it("renders posts as Markdown and other types as placeholders", () => {
+    const base = { messageId: "om_1", chatId: "oc_1" };
+    expect(formatHistoryContent({ ...base, content: "hi", contentType: "text" })).toBe("hi");
+    expect(formatHistoryContent({ ...base, content: "{}", contentType: "image" })).toBe("[image]");
+  });
+});
+
+describe("fetchHistoryEntries", () => {
+  it("returns the messages before the current one, oldest first", async () => {
+    const entries = await fetchHistoryEntries(config, { ...current, limit: 10, botName: "Helper" });
+
+    expect(entries).toEqual([
+      { sender: "Alice", body: "hello", timestamp: 1000, messageId: "om_first" },
+      { sender: "Alice", body: "[image]", timestamp: 2000, messageId: "om_image" },
+      { sender: "Helper", body: "# Answer\n\nHi", timestamp: 3000, messageId: "om_bot" },
+    ]);
+  });
+
+  it("respects the limit across pages", async () => {
+    requests.length = 0;
+    const entries = await fetchHistoryEntries(config, { ...current, limit: 2 });
+
+    expect(entries.map((e) => e.messageId)).toEqual(["om_image", "om_bot"]);
+    expect(requests.length).toBeGreaterThan(1);
+    expect(requests.every((r) => r.params.container_id === "oc_dm")).toBe(true);
+  });
+
+  it("leaves out bot messages when asked to", async () => {
+    const entries = await fetchHistoryEntries(config, {
+      ...current,
+      limit: 2,
+      skipBotMessages: true,
+    });
+
+    expect(entries.map((e) => e.messageId)).toEqual(["om_first", "om_image"]);
+  });
+
+  it("fetches nothing when the limit is 0", async () => {
+    requests.length = 0;
+    expect(await fetchHistoryEntries(config, { ...current, limit: 0 })).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("backfillHistory", () => {
+  it("puts fetched entries before the ones recorded since", async () => {
+    const recorded = { sender: "Alice", body: "hello", timestamp: 1000, messageId: "om_first" };
+    const chatHistories = new Map([["oc_dm", [recorded]]]);
+
+    const added = await backfillHistory(config, chatHistories, "oc_dm", { ...current, limit: 3 });
+
+    expect(added).toBe(2);
+    expect(chatHistories.get("oc_dm")?.map((e) => e.messageId)).toEqual([
+      "om_image",
+      "om_bot",
+      "om_first",
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for core/markdown.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  renderMarkdownToPost,
+  stripMarkdown,
+  needsMarkdownCard,
+  buildMarkdownCard,
+} from "../../../dist/core/markdown.js";
+
+const paragraphs = (markdown: string) => renderMarkdownToPost(markdown).zh_cn.content;
+
+describe("renderMarkdownToPost", () => {
+  it("maps inline styles to text styles", () => {
+    expect(paragraphs("Use **bold**, *italic*, ~~old~~ and `npm test`")).toEqual([
+      [
+        { tag: "text", text: "Use " },
+        { tag: "text", text: "bold", style: ["bold"] },
+        { tag: "text", text: ", " },
+        { tag: "text", text: "italic", style: ["italic"] },
+        { tag: "text", text: ", " },
+        { tag: "text", text: "old", style: ["lineThrough"] },
+        { tag: "text", text: " and " },
+        { tag: "text", text: "npm test", style: ["codeInline"] },
+      ],
+    ]);
+  });
+
+  it("nests styles and keeps snake_case intact", () => {
+    expect(paragraphs("**very _important_** my_var_name")).toEqual([
+      [
+        { tag: "text", text: "very ", style: ["bold"] },
+        { tag: "text", text: "important", style: ["bold", "italic"] },
+        { tag: "text", text: " my_var_name" },
+      ],
+    ]);
+  });
+
+  it("renders links and mentions as native tags", () => {
+    expect(paragraphs('See [docs](https://open.feishu.cn) <at user_id="ou_1">Alice</at>')).toEqual([
+      [
+        { tag: "text", text: "See " },
+        { tag: "a", text: "docs", href: "https://open.feishu.cn" },
+        { tag: "text", text: " " },
+        { tag: "at", user_id: "ou_1", user_name: "Alice" },
+      ],
+    ]);
+  });
+
+  it("renders code blocks, headings, lists and rules", () => {
+    const markdown = [
+      "# Plan",
+      "",
+      "- first",
+      "  - nested",
+      "2. second",
+      "---",
+      "```ts",
+      "const **a** = 1;",
+      "```",
+    ].join("\n");
+
+    expect(paragraphs(markdown)).toEqual([
+      [{ tag: "text", text: "Plan", style: ["bold"] }],
+      [],
+      [
+        { tag: "text", text: "• " },
+        { tag: "text", text: "first" },
+      ],
+      [
+        { tag: "text", text: "  • " },
+        { tag: "text", text: "nested" },
+      ],
+      [
+        { tag: "text", text: "2. " },
+        { tag: "text", text: "second" },
+      ],
+      [{ tag: "hr" }],
+      [{ tag: "code_block", language: "ts", text: "const **a** = 1;" }],
+    ]);
+  });
+
+  it("collapses blank lines", () => {
+    expect(paragraphs("a\n\n\n\nb\n\n")).toEqual([
+      [{ tag: "text", text: "a" }],
+      [],
+      [{ tag: "text", text: "b" }],
+    ]);
+  });
+});
+
+describe("stripMarkdown", () => {
+  it("removes syntax but keeps link targets and mentions", () => {
+    const text = stripMarkdown(
+      '## Done\n**All** [tests](https://ci) pass <at user_id="ou_1">Bob</at>'
+    );
+    expect(text).toBe('Done\nAll tests (https://ci) pass <at user_id="ou_1">Bob</at>');
+  });
+});
+
+describe("needsMarkdownCard", () => {
+  it("detects tables", () => {
+    expect(needsMarkdownCard("| a | b |\n| --- | --- |\n| 1 | 2 |")).toBe(true);
+    expect(needsMarkdownCard("a | b\n---")).toBe(false);
+    expect(needsMarkdownCard("plain text")).toBe(false);
+  });
+
+  it("builds a markdown card", () => {
+    expect(buildMarkdownCard("| a |")).toEqual({
+      schema: "2.0",
+      body: { elements: [{ tag: "markdown", content: "| a |" }] },
+    });
+  });
+});
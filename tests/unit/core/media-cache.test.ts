@@ -0,0 +1,163 @@
+/**
+ * Unit tests for core/media-cache.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { MediaCache, getMediaCache, resolveMediaDir } from "../../../dist/core/media-cache.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+const HOUR = 60 * 60 * 1000;
+const params = { messageId: "om_1", contentType: "image/png", ext: ".png" };
+
+describe("MediaCache", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-media-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("stores files by content hash and finds them by file_key", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const entry = await cache.put("img_1", Buffer.from("png"), params);
+
+        expect(path.basename(entry.path)).toMatch(/^[0-9a-f]{64}\.png$/);
+        expect(fs.readFileSync(entry.path, "utf8")).toBe("png");
+        expect((await cache.get("img_1"))?.path).toBe(entry.path);
+        expect(await cache.get("img_2")).toBeUndefined();
+    });
+
+    it("shares one file between keys with the same content", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const first = await cache.put("img_1", Buffer.from("same"), params);
+        const second = await cache.put("img_2", Buffer.from("same"), params);
+
+        expect(second.path).toBe(first.path);
+        expect(cache.totalBytes()).toBe(4);
+    });
+
+    it("reloads the manifest after a restart", async () => {
+        const first = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        await first.put("file_1", Buffer.from("pdf"), {
+            ...params,
+            contentType: "application/pdf",
+            ext: ".pdf",
+            fileName: "report.pdf",
+        });
+
+        const second = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const entry = await second.get("file_1");
+        expect(entry?.fileName).toBe("report.pdf");
+        expect(entry?.messageId).toBe("om_1");
+        expect(fs.existsSync(path.join(dir, "manifest.json"))).toBe(true);
+    });
+
+    it("forgets entries whose file was deleted", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const entry = await cache.put("img_1", Buffer.from("png"), params);
+        fs.rmSync(entry.path);
+
+        expect(await cache.get("img_1")).toBeUndefined();
+        expect(cache.list()).toEqual([]);
+    });
+
+    it("prunes expired entries and their files", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const entry = await cache.put("img_1", Buffer.from("png"), params);
+
+        expect(await cache.prune(Date.now() + 2 * HOUR)).toBe(1);
+        expect(fs.existsSync(entry.path)).toBe(false);
+    });
+
+    it("evicts the least recently used entries when over the size limit", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 10 });
+        const old = await cache.put("img_old", Buffer.from("aaaaaa"), params);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await cache.put("img_new", Buffer.from("bbbbbb"), params);
+
+        expect(cache.list().map((e) => e.fileKey)).toEqual(["img_new"]);
+        expect(fs.existsSync(old.path)).toBe(false);
+    });
+
+    it("writes last-used times to the manifest after a debounce", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 }, { flushDelayMs: 60_000 });
+        await cache.put("img_1", Buffer.from("png"), params);
+        const manifestPath = path.join(dir, "manifest.json");
+        const written = fs.readFileSync(manifestPath, "utf8");
+
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const entry = await cache.get("img_1");
+        expect(fs.readFileSync(manifestPath, "utf8")).toBe(written);
+
+        await cache.flush();
+        const data = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+        expect(data.entries.img_1.lastUsedAt).toBe(entry?.lastUsedAt);
+    });
+
+    it("keeps files stored while a prune is running", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        await cache.put("img_old", Buffer.from("old"), params);
+
+        const later = Date.now() + 2 * HOUR;
+        const [, entry] = await Promise.all([
+            cache.prune(later),
+            cache.put("img_new", Buffer.from("new"), params),
+        ]);
+
+        expect(fs.existsSync(entry.path)).toBe(true);
+        expect(cache.list().map((e) => e.fileKey)).toEqual(["img_new"]);
+    });
+
+    it("limits lookups to the chats and account a file was received in", async () => {
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        const here = { accountId: "default", chatId: "oc_1" };
+        await cache.put("img_1", Buffer.from("png"), { ...params, ...here });
+
+        expect(await cache.get("img_1", here)).toBeDefined();
+        expect(await cache.get("img_1", { ...here, chatId: "oc_2" })).toBeUndefined();
+        expect(await cache.get("img_1", { ...here, accountId: "work" })).toBeUndefined();
+        expect(cache.list({ ...here, chatId: "oc_2" })).toEqual([]);
+
+        // Received again in another chat: visible in both
+        await cache.put("img_1", Buffer.from("png"), { ...params, ...here, chatId: "oc_2" });
+        expect(cache.list(here).map((e) => e.chatIds)).toEqual([["oc_1", "oc_2"]]);
+    });
+
+    it("leaves files it did not create", async () => {
+        fs.writeFileSync(path.join(dir, "notes.txt"), "keep");
+        const cache = new MediaCache(dir, { ttlMs: HOUR, maxBytes: 1024 });
+        await cache.put("img_1", Buffer.from("png"), params);
+        await cache.prune(Date.now() + 2 * HOUR);
+
+        expect(fs.existsSync(path.join(dir, "notes.txt"))).toBe(true);
+    });
+});
+
+describe("getMediaCache", () => {
+    it("returns one cache per media directory", () => {
+        const config = { mediaDir: path.join(os.tmpdir(), "feishu-media-shared") } as Config;
+        expect(getMediaCache(config)).toBe(getMediaCache(config));
+        expect(getMediaCache(config).dir).toBe(config.mediaDir);
+    });
+
+    it("applies the latest settings to a shared directory", () => {
+        const mediaDir = path.join(os.tmpdir(), "feishu-media-settings");
+        getMediaCache({ mediaDir, mediaCache: { ttlHours: 1 } } as Config);
+        const cache = getMediaCache({ mediaDir, mediaCache: { ttlHours: 2, maxSizeMb: 1 } } as Config);
+
+        expect(cache.settings).toEqual({ ttlMs: 2 * HOUR, maxBytes: 1024 * 1024 });
+    });
+
+    it("expands ~ in mediaDir", () => {
+        expect(resolveMediaDir({ mediaDir: "~/media" } as Config)).toBe(
+            path.join(os.homedir(), "media")
+        );
+        expect(resolveMediaDir(undefined)).toBe(path.join(os.tmpdir(), "openclaw-feishu-media"));
+    });
+});
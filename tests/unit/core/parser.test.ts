@@ -13,8 +13,17 @@ import {
   parseMessageEvent,
   extractMentions,
   formatMentionsForFeishu,
+  parseCardActionEvent,
+  getThreadRootId,
+  getConversationKey,
+  extractAttachments,
+  formatForwardedTranscript,
 } from "../../../dist/core/parser.js";
-import type { MessageReceivedEvent, MessageMention } from "../../../dist/types/index.js";
+import type {
+  MessageReceivedEvent,
+  MessageMention,
+  CardActionEvent,
+} from "../../../dist/types/index.js";
 
 describe("parseMessageContent", () => {
   it("extracts text from text message JSON", () => {
@@ -370,3 +379,178 @@ describe("formatMentionsForFeishu", () => {
     expect(formatMentionsForFeishu(input)).toBe(input);
   });
 });
+
+describe("parseCardActionEvent", () => {
+  const baseEvent: CardActionEvent = {
+    event_id: "ev_card_1",
+    operator: { open_id: "ou_operator", user_id: "u_operator" },
+    action: { tag: "button", value: { choice: "approve" } },
+    context: { open_message_id: "om_card", open_chat_id: "oc_chat" },
+  };
+
+  it("maps the card to the originating chat and message", () => {
+    const parsed = parseCardActionEvent(baseEvent, "group");
+
+    expect(parsed?.chatId).toBe("oc_chat");
+    expect(parsed?.messageId).toBe("om_card");
+    expect(parsed?.chatType).toBe("group");
+    expect(parsed?.senderOpenId).toBe("ou_operator");
+    expect(parsed?.mentionedBot).toBe(true);
+    expect(parsed?.contentType).toBe("card_action");
+  });
+
+  it("describes the action value", () => {
+    const parsed = parseCardActionEvent(baseEvent, "p2p");
+
+    expect(parsed?.content).toContain("[Card action] button on card om_card");
+    expect(parsed?.content).toContain('value: {"choice":"approve"}');
+  });
+
+  it("includes submitted form and option values", () => {
+    const parsed = parseCardActionEvent(
+      {
+        ...baseEvent,
+        action: {
+          tag: "select_static",
+          name: "priority",
+          option: "high",
+          form_value: { note: "asap" },
+        },
+      },
+      "group"
+    );
+
+    expect(parsed?.content).toContain("[Card action] priority");
+    expect(parsed?.content).toContain("option: high");
+    expect(parsed?.content).toContain('form: {"note":"asap"}');
+  });
+
+  it("returns null without chat context", () => {
+    expect(parseCardActionEvent({ ...baseEvent, context: undefined }, "group")).toBeNull();
+  });
+});
+
+describe("thread keys", () => {
+  const groupEvent: MessageReceivedEvent = {
+    sender: { sender_id: { open_id: "ou_sender" }, sender_type: "user" },
+    message: {
+      message_id: "om_reply",
+      chat_id: "oc_chat",
+      chat_type: "group",
+      message_type: "text",
+      content: JSON.stringify({ text: "hello" }),
+    },
+  };
+
+  it("keys thread replies by their root message", () => {
+    const parsed = parseMessageEvent({
+      ...groupEvent,
+      message: { ...groupEvent.message, root_id: "om_root", thread_id: "omt_1" },
+    });
+
+    expect(parsed.threadId).toBe("omt_1");
+    expect(getThreadRootId(parsed)).toBe("om_root");
+    expect(getConversationKey(parsed)).toBe("oc_chat:thread:om_root");
+  });
+
+  it("treats the first message of a topic as the thread root", () => {
+    const parsed = parseMessageEvent({
+      ...groupEvent,
+      message: { ...groupEvent.message, thread_id: "omt_1" },
+    });
+
+    expect(getConversationKey(parsed)).toBe("oc_chat:thread:om_reply");
+  });
+
+  it("keeps quote replies outside threads in the chat", () => {
+    const parsed = parseMessageEvent({
+      ...groupEvent,
+      message: { ...groupEvent.message, root_id: "om_root", parent_id: "om_root" },
+    });
+
+    expect(getThreadRootId(parsed)).toBeUndefined();
+    expect(getConversationKey(parsed)).toBe("oc_chat");
+  });
+});
+
+describe("extractAttachments", () => {
+  it("collects every image and video in a post", () => {
+    const content = JSON.stringify({
+      content: [
+        [{ tag: "img", image_key: "img_1" }],
+        [{ tag: "media", file_key: "file_video", image_key: "img_cover" }],
+        [{ tag: "img", image_key: "img_2" }],
+      ],
+    });
+
+    expect(extractAttachments("om_1", "post", content)).toEqual([
+      { messageId: "om_1", fileKey: "img_1", type: "image" },
+      { messageId: "om_1", fileKey: "img_2", type: "image" },
+      { messageId: "om_1", fileKey: "file_video", type: "file" },
+    ]);
+  });
+
+  it("downloads the video of a media message, not its cover", () => {
+    const content = JSON.stringify({
+      file_key: "file_v",
+      image_key: "img_cover",
+      file_name: "a.mp4",
+    });
+
+    expect(extractAttachments("om_1", "media", content)).toEqual([
+      { messageId: "om_1", fileKey: "file_v", type: "file", fileName: "a.mp4" },
+    ]);
+  });
+
+  it("names audio files as opus", () => {
+    const [audio] = extractAttachments("om_1", "audio", JSON.stringify({ file_key: "file_a" }));
+    expect(audio?.fileName).toBe("voice.opus");
+  });
+
+  it("ignores stickers and malformed content", () => {
+    expect(extractAttachments("om_1", "sticker", JSON.stringify({ file_key: "s" }))).toEqual([]);
+    expect(extractAttachments("om_1", "text", "not json")).toEqual([]);
+  });
+});
+
+describe("formatForwardedTranscript", () => {
+  it("quotes each message with its sender, nested bundles one level deeper", () => {
+    const transcript = formatForwardedTranscript(
+      "om_bundle",
+      [
+        {
+          messageId: "om_a",
+          upperMessageId: "om_bundle",
+          senderId: "ou_alice",
+          msgType: "text",
+          content: JSON.stringify({ text: "line one\nline two" }),
+        },
+        {
+          messageId: "om_inner",
+          upperMessageId: "om_bundle",
+          senderId: "ou_bob",
+          msgType: "merge_forward",
+          content: "{}",
+        },
+        {
+          messageId: "om_b",
+          upperMessageId: "om_inner",
+          senderId: "ou_carol",
+          msgType: "image",
+          content: JSON.stringify({ image_key: "img_1" }),
+        },
+      ],
+      new Map([["ou_alice", "Alice"]])
+    );
+
+    expect(transcript).toBe(
+      [
+        "[合并转发消息]",
+        "> Alice: line one",
+        "> line two",
+        "> ou_bob: [合并转发消息]",
+        ">> ou_carol: [图片: img_1]",
+      ].join("\n")
+    );
+  });
+});
@@ -8,6 +8,8 @@ import {
     checkDmPolicy,
     checkGroupPolicy,
     resolveGroupConfig,
+    resolveDmConfig,
+    resolveChatSettings,
     shouldRequireMention,
 } from "../../../dist/core/policy.js";
 import type { Config } from "../../../dist/config/schema.js";
@@ -124,6 +126,63 @@ describe("resolveGroupConfig", () => {
     });
 });
 
+describe("resolveDmConfig", () => {
+    const config: Config = {
+        ...baseConfig,
+        dms: { "OU_User1": { systemPrompt: "Be brief." } },
+    };
+
+    it("matches case-insensitive", () => {
+        expect(resolveDmConfig(config, "ou_user1")?.systemPrompt).toBe("Be brief.");
+        expect(resolveDmConfig(config, "ou_other")).toBeUndefined();
+    });
+});
+
+describe("resolveChatSettings", () => {
+    const config: Config = {
+        ...baseConfig,
+        groups: {
+            "OC_Support": { systemPrompt: "You are the support bot.", skills: ["tickets"] },
+            "oc_muted": { enabled: false },
+            "*": { systemPrompt: "Default group prompt." },
+        },
+        dms: {
+            "OU_VIP": { systemPrompt: "Be formal." },
+            "ou_blocked": { enabled: false },
+        },
+    };
+
+    it("applies the group's system prompt and skills", () => {
+        expect(resolveChatSettings(config, "group", "oc_support", "ou_1")).toEqual({
+            enabled: true,
+            systemPrompt: "You are the support bot.",
+            skills: ["tickets"],
+        });
+    });
+
+    it("falls back to the wildcard group", () => {
+        const settings = resolveChatSettings(config, "group", "oc_other", "ou_1");
+        expect(settings.systemPrompt).toBe("Default group prompt.");
+        expect(settings.skills).toBeUndefined();
+    });
+
+    it("disables groups and DMs", () => {
+        expect(resolveChatSettings(config, "group", "OC_MUTED", "ou_1").enabled).toBe(false);
+        expect(resolveChatSettings(config, "p2p", "oc_dm", "OU_BLOCKED").enabled).toBe(false);
+    });
+
+    it("applies the DM's system prompt", () => {
+        expect(resolveChatSettings(config, "p2p", "oc_dm", "ou_vip")).toEqual({
+            enabled: true,
+            systemPrompt: "Be formal.",
+        });
+        expect(resolveChatSettings(baseConfig, "p2p", "oc_dm", "ou_vip")).toEqual({
+            enabled: true,
+            systemPrompt: undefined,
+        });
+    });
+});
+
 describe("shouldRequireMention", () => {
     it("never requires mention for DMs", () => {
         expect(shouldRequireMention(baseConfig, "p2p")).toBe(false);
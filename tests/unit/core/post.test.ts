@@ -0,0 +1,89 @@
+/**
+ * Unit tests for core/post.ts
+ *
+ * Each fixture in tests/fixtures/post holds post content and the expected Markdown.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { parsePost } from "../../../dist/core/post.js";
+import { parseMessageEvent } from "../../../dist/core/parser.js";
+import type { MessageReceivedEvent } from "../../../dist/types/index.js";
+
+interface PostFixture {
+  description: string;
+  content: Record<string, unknown>;
+  markdown: string;
+  imageKeys?: string[];
+  mediaKeys?: string[];
+}
+
+const fixtureDir = new URL("../../fixtures/post/", import.meta.url);
+const fixtures = readdirSync(fixtureDir)
+  .filter((name) => name.endsWith(".json"))
+  .map((name) => ({
+    name,
+    fixture: JSON.parse(readFileSync(new URL(name, fixtureDir), "utf8")) as PostFixture,
+  }));
+
+describe("parsePost fixtures", () => {
+  it.each(fixtures)("$name", ({ fixture }) => {
+    const post = parsePost(fixture.content);
+
+    expect(post?.markdown).toBe(fixture.markdown);
+    if (fixture.imageKeys) expect(post?.imageKeys).toEqual(fixture.imageKeys);
+    if (fixture.mediaKeys) expect(post?.mediaKeys).toEqual(fixture.mediaKeys);
+  });
+});
+
+describe("parsePost", () => {
+  it("returns null for non-post content", () => {
+    expect(parsePost({ text: "hello" })).toBeNull();
+    expect(parsePost(null)).toBeNull();
+  });
+});
+
+describe("parseMessageEvent with post content", () => {
+  const event = (content: Record<string, unknown>): MessageReceivedEvent => ({
+    sender: { sender_id: { open_id: "ou_sender" }, sender_type: "user" },
+    message: {
+      message_id: "om_post",
+      chat_id: "oc_chat",
+      chat_type: "group",
+      message_type: "post",
+      content: JSON.stringify(content),
+      mentions: [{ key: "@_user_1", id: { open_id: "ou_bot" }, name: "Bot" }],
+    },
+  });
+
+  it("resolves mention keys and exposes the first image", () => {
+    const parsed = parseMessageEvent(
+      event({
+        en_us: {
+          title: "",
+          content: [
+            [
+              { tag: "at", user_id: "@_user_1", user_name: "Bot" },
+              { tag: "text", text: " see this" },
+            ],
+            [{ tag: "img", image_key: "img_v3_first" }],
+          ],
+        },
+      }),
+      "ou_bot"
+    );
+
+    expect(parsed.mentionedBot).toBe(true);
+    expect(parsed.content).toBe('<at user_id="self">你</at> see this\n![图片](img_v3_first)');
+    expect(parsed.imageKey).toBe("img_v3_first");
+  });
+
+  it("uses a video as the file to download", () => {
+    const parsed = parseMessageEvent(
+      event({ content: [[{ tag: "media", file_key: "file_v3_video", image_key: "img_cover" }]] })
+    );
+
+    expect(parsed.fileKey).toBe("file_v3_video");
+    expect(parsed.imageKey).toBeUndefined();
+  });
+});
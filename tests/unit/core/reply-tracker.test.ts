@@ -0,0 +1,77 @@
+/**
+ * Unit tests for core/reply-tracker.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { ReplyTracker } from "../../../dist/core/reply-tracker.js";
+import type { ParsedMessage } from "../../../dist/types/index.js";
+
+const message = (messageId: string) =>
+  ({
+    chatId: "oc_1",
+    messageId,
+    senderOpenId: "ou_1",
+    chatType: "p2p",
+    mentionedBot: false,
+    content: "hello",
+    contentType: "text",
+  }) as ParsedMessage;
+
+describe("ReplyTracker", () => {
+  it("records replies to tracked messages", () => {
+    const tracker = new ReplyTracker();
+    tracker.track(message("om_1"));
+    tracker.addReply("om_1", { messageId: "om_r1", msgType: "post" });
+    tracker.addReply("om_unknown", { messageId: "om_r2", msgType: "post" });
+
+    expect(tracker.get("om_1")?.replies).toEqual([{ messageId: "om_r1", msgType: "post" }]);
+    expect(tracker.get("om_unknown")).toBeUndefined();
+  });
+
+  it("starts over when a message is dispatched again", () => {
+    const tracker = new ReplyTracker();
+    tracker.track(message("om_1"));
+    tracker.addReply("om_1", { messageId: "om_r1", msgType: "text" });
+    tracker.track({ ...message("om_1"), content: "edited" });
+
+    expect(tracker.get("om_1")?.replies).toEqual([]);
+    expect(tracker.get("om_1")?.parsed.content).toBe("edited");
+  });
+
+  it("gives each dispatch its own abort controller", () => {
+    const tracker = new ReplyTracker();
+    const first = tracker.track(message("om_1"));
+    first.abortController.abort();
+    const second = tracker.track(message("om_1"));
+
+    expect(second.abortController.signal.aborted).toBe(false);
+    expect(tracker.get("om_1")).toBe(second);
+  });
+
+  it("finds the message a reply answered", () => {
+    const tracker = new ReplyTracker();
+    tracker.track(message("om_1"));
+    tracker.addReply("om_1", { messageId: "om_r1", msgType: "post" });
+
+    expect(tracker.findByReply("om_r1")?.parsed.messageId).toBe("om_1");
+    expect(tracker.findByReply("om_1")).toBeUndefined();
+  });
+
+  it("forgets messages after the TTL", () => {
+    const tracker = new ReplyTracker({ ttlMs: 1000 });
+    tracker.track(message("om_1"), 0);
+
+    expect(tracker.get("om_1", 500)).toBeDefined();
+    expect(tracker.get("om_1", 2000)).toBeUndefined();
+  });
+
+  it("evicts the oldest messages over the size limit", () => {
+    const tracker = new ReplyTracker({ maxEntries: 2 });
+    tracker.track(message("om_1"));
+    tracker.track(message("om_2"));
+    tracker.track(message("om_3"));
+
+    expect(tracker.get("om_1")).toBeUndefined();
+    expect(tracker.get("om_3")).toBeDefined();
+  });
+});
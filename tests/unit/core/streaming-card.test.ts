@@ -0,0 +1,122 @@
+/**
+ * Unit tests for core/streaming-card.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CardKitStream,
+  buildStreamingCardJson,
+  buildFinalCardJson,
+  STREAMING_ELEMENT_ID,
+  DEFAULT_STREAMING_PLACEHOLDER,
+  DEFAULT_STREAMING_FOOTER,
+} from "../../../dist/core/streaming-card.js";
+import { getApiClient } from "../../../dist/api/client.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+type Card = {
+  schema: string;
+  config: { streaming_mode: boolean; summary: { content: string } };
+  header?: { title: { content: string } };
+  body: { elements: { tag: string; element_id?: string; content: string }[] };
+};
+
+describe("buildStreamingCardJson", () => {
+  it("starts in streaming mode with the placeholder", () => {
+    const card = buildStreamingCardJson({}) as Card;
+
+    expect(card.schema).toBe("2.0");
+    expect(card.config.streaming_mode).toBe(true);
+    expect(card.body.elements).toHaveLength(1);
+    expect(card.body.elements[0]).toMatchObject({
+      tag: "markdown",
+      element_id: STREAMING_ELEMENT_ID,
+      content: DEFAULT_STREAMING_PLACEHOLDER,
+    });
+    expect(card.header).toBeUndefined();
+  });
+
+  it("uses a custom placeholder and title", () => {
+    const card = buildStreamingCardJson({ placeholder: "Working...", title: "Assistant" }) as Card;
+
+    expect(card.body.elements[0]?.content).toBe("Working...");
+    expect(card.header?.title.content).toBe("Assistant");
+  });
+});
+
+describe("buildFinalCardJson", () => {
+  it("ends streaming mode and adds the footer", () => {
+    const card = buildFinalCardJson("Hello **world**", {}) as Card;
+
+    expect(card.config.streaming_mode).toBe(false);
+    expect(card.body.elements[0]?.content).toBe("Hello **world**");
+    expect(card.body.elements[1]?.content).toBe(DEFAULT_STREAMING_FOOTER);
+  });
+
+  it("omits the footer when disabled", () => {
+    const card = buildFinalCardJson("Hello", { footer: "" }) as Card;
+    expect(card.body.elements).toHaveLength(1);
+  });
+
+  it("summarizes long replies for chat previews", () => {
+    const card = buildFinalCardJson("word ".repeat(40), {}) as Card;
+    expect(card.config.summary.content.length).toBeLessThanOrEqual(51);
+    expect(card.config.summary.content.endsWith("…")).toBe(true);
+  });
+});
+
+describe("CardKitStream", () => {
+  function stubClient(appId: string) {
+    const calls: string[] = [];
+    const client = getApiClient({ appId, appSecret: "secret" } as Config) as unknown as {
+      cardkit: { v1: { card: Record<string, unknown> } };
+      im: { message: Record<string, unknown> };
+    };
+    client.cardkit.v1.card.create = async () => {
+      calls.push("card.create");
+      return { code: 0, data: { card_id: "card_1" } };
+    };
+    client.cardkit.v1.card.update = async () => {
+      calls.push("card.update");
+      return { code: 0 };
+    };
+    client.im.message.create = async () => {
+      calls.push("message.create");
+      return { code: 0, data: { message_id: "om_card" } };
+    };
+    client.im.message.delete = async (req: { path: { message_id: string } }) => {
+      calls.push(`message.delete:${req.path.message_id}`);
+      return { code: 0 };
+    };
+    return calls;
+  }
+
+  it("recalls the placeholder card of a reply without text", async () => {
+    const calls = stubClient("cli_stream_discard");
+    const stream = new CardKitStream(
+      { appId: "cli_stream_discard", appSecret: "secret" } as Config,
+      {
+        to: "oc_chat",
+      }
+    );
+
+    await stream.start();
+    await stream.discard();
+
+    expect(calls).toEqual(["card.create", "message.create", "message.delete:om_card"]);
+    expect(stream.started).toBe(false);
+  });
+
+  it("does nothing when the card was never sent", async () => {
+    const calls = stubClient("cli_stream_unsent");
+    const stream = new CardKitStream(
+      { appId: "cli_stream_unsent", appSecret: "secret" } as Config,
+      {
+        to: "oc_chat",
+      }
+    );
+
+    await stream.discard();
+    expect(calls).toEqual([]);
+  });
+});
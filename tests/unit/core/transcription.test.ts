@@ -0,0 +1,67 @@
+/**
+ * Unit tests for core/transcription.ts
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  CommandTranscriptionProvider,
+  getTranscriptionProvider,
+  setTranscriptionProvider,
+  formatVoiceMessage,
+} from "../../../dist/core/transcription.js";
+import type { Config } from "../../../dist/config/schema.js";
+
+const request = { filePath: "/tmp/voice.opus", contentType: "audio/ogg" };
+
+describe("CommandTranscriptionProvider", () => {
+  it("substitutes {file} and returns trimmed stdout", async () => {
+    const provider = new CommandTranscriptionProvider({
+      command: process.execPath,
+      args: ["-e", "console.log(`  heard ${process.argv[1]}  `)", "{file}"],
+    });
+    expect(await provider.transcribe(request)).toBe("heard /tmp/voice.opus");
+  });
+
+  it("appends the path when args have no placeholder", async () => {
+    const provider = new CommandTranscriptionProvider({
+      command: process.execPath,
+      args: ["-e", "console.log(process.argv.at(-1))"],
+    });
+    expect(await provider.transcribe(request)).toBe("/tmp/voice.opus");
+  });
+
+  it("rejects when the command fails", async () => {
+    const provider = new CommandTranscriptionProvider({
+      command: process.execPath,
+      args: ["-e", "process.exit(3)"],
+    });
+    await expect(provider.transcribe(request)).rejects.toThrow("Transcription command failed");
+  });
+});
+
+describe("getTranscriptionProvider", () => {
+  afterEach(() => setTranscriptionProvider(null));
+
+  it("uses the configured command", () => {
+    expect(getTranscriptionProvider({} as Config)).toBeNull();
+    expect(
+      getTranscriptionProvider({ transcription: { command: "whisper" } } as Config)?.name
+    ).toBe("command");
+  });
+
+  it("prefers a registered provider unless disabled", () => {
+    const custom = { name: "custom", transcribe: async () => "text" };
+    setTranscriptionProvider(custom);
+
+    expect(getTranscriptionProvider({} as Config)).toBe(custom);
+    expect(getTranscriptionProvider({ transcription: { enabled: false } } as Config)).toBeNull();
+  });
+});
+
+describe("formatVoiceMessage", () => {
+  it("includes duration and transcript", () => {
+    expect(formatVoiceMessage("file_1", 65_400, "hello")).toBe("[语音消息 1:05] hello");
+    expect(formatVoiceMessage("file_1", 3_000, undefined)).toBe("[语音消息 0:03: file_1]");
+    expect(formatVoiceMessage("file_1", undefined, undefined)).toBe("[语音消息: file_1]");
+  });
+});
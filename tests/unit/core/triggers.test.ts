@@ -0,0 +1,177 @@
+/**
+ * Unit tests for core/triggers
+ */
+
+import { describe, it, expect } from "vitest";
+import { createTriggers, createTriggerResolver } from "../../../dist/core/triggers/config.js";
+import { KeywordTrigger } from "../../../dist/core/triggers/keyword.js";
+import { ReplyToBotTrigger } from "../../../dist/core/triggers/reply.js";
+import { mentionAllTrigger } from "../../../dist/core/triggers/mention-all.js";
+import { questionTrigger } from "../../../dist/core/triggers/question.js";
+import { AdminTrigger } from "../../../dist/core/triggers/admin.js";
+import type { TriggerContext } from "../../../dist/core/triggers/index.js";
+import type { Config } from "../../../dist/config/schema.js";
+import type { ParsedMessage } from "../../../dist/types/index.js";
+
+function ctx(overrides: Partial<ParsedMessage> = {}, rawContent?: string): TriggerContext {
+  const parsed: ParsedMessage = {
+    chatId: "oc_group",
+    messageId: "om_1",
+    senderId: "u_1",
+    senderOpenId: "ou_1",
+    senderName: "Alice",
+    chatType: "group",
+    mentionedBot: false,
+    content: "hello",
+    contentType: "text",
+    ...overrides,
+  };
+  return {
+    parsed,
+    event: {
+      sender: { sender_id: { open_id: parsed.senderOpenId } },
+      message: {
+        message_id: parsed.messageId,
+        chat_id: parsed.chatId,
+        chat_type: "group",
+        message_type: "text",
+        content: rawContent ?? JSON.stringify({ text: parsed.content }),
+      },
+    },
+  };
+}
+
+const deps = { isBotMessage: (id: string) => id === "om_bot" };
+const names = (config: Parameters<typeof createTriggers>[0]) =>
+  createTriggers(config, deps).map((t) => t.name);
+
+describe("KeywordTrigger", () => {
+  it("matches keywords case-insensitively", () => {
+    const trigger = new KeywordTrigger({ keywords: ["Deploy"] });
+    expect(trigger.check(ctx({ content: "please DEPLOY now" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "hello" }))).toBe(false);
+  });
+
+  it("matches Latin keywords as whole words only", () => {
+    const trigger = new KeywordTrigger({ keywords: ["deploy", "c++"] });
+    expect(trigger.check(ctx({ content: "deploy, please" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "帮我deploy一下" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "redeployed yesterday" }))).toBe(false);
+    expect(trigger.check(ctx({ content: "deploy_v2" }))).toBe(false);
+    expect(trigger.check(ctx({ content: "who knows C++?" }))).toBe(true);
+  });
+
+  it("matches CJK keywords anywhere in the text", () => {
+    const trigger = new KeywordTrigger({ keywords: ["报警"] });
+    expect(trigger.check(ctx({ content: "服务器报警了" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "一切正常" }))).toBe(false);
+  });
+
+  it("matches regular expressions", () => {
+    const trigger = new KeywordTrigger({ patterns: ["^/ask\\b", /ticket-\d+/g] });
+    expect(trigger.check(ctx({ content: "/ask where is it" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "see ticket-42" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "and ticket-43" }))).toBe(true);
+    expect(trigger.check(ctx({ content: "asking" }))).toBe(false);
+  });
+});
+
+describe("ReplyToBotTrigger", () => {
+  it("matches replies to bot messages only", () => {
+    const trigger = new ReplyToBotTrigger(deps.isBotMessage);
+    expect(trigger.check(ctx({ parentId: "om_bot" }))).toBe(true);
+    expect(trigger.check(ctx({ parentId: "om_user" }))).toBe(false);
+    expect(trigger.check(ctx())).toBe(false);
+  });
+
+  it("looks up parents it does not know once", async () => {
+    const lookups: string[] = [];
+    const trigger = new ReplyToBotTrigger(deps.isBotMessage, async (id) => {
+      lookups.push(id);
+      return id === "om_old_bot";
+    });
+
+    await trigger.prepare(ctx({ parentId: "om_old_bot" }));
+    await trigger.prepare(ctx({ parentId: "om_old_bot" }));
+    await trigger.prepare(ctx({ parentId: "om_user" }));
+    await trigger.prepare(ctx({ parentId: "om_bot" }));
+
+    expect(trigger.check(ctx({ parentId: "om_old_bot" }))).toBe(true);
+    expect(trigger.check(ctx({ parentId: "om_user" }))).toBe(false);
+    expect(lookups).toEqual(["om_old_bot", "om_user"]);
+  });
+
+  it("treats failed lookups as not sent by the bot", async () => {
+    const trigger = new ReplyToBotTrigger(deps.isBotMessage, () =>
+      Promise.reject(new Error("403"))
+    );
+    await trigger.prepare(ctx({ parentId: "om_x" }));
+    expect(trigger.check(ctx({ parentId: "om_x" }))).toBe(false);
+  });
+});
+
+describe("mentionAllTrigger", () => {
+  it("matches @all in text and post messages", () => {
+    expect(mentionAllTrigger.check(ctx({}, JSON.stringify({ text: "@_all meeting" })))).toBe(true);
+    const post = JSON.stringify({ content: [[{ tag: "at", user_id: "all" }]] });
+    expect(mentionAllTrigger.check(ctx({}, post))).toBe(true);
+    expect(mentionAllTrigger.check(ctx())).toBe(false);
+  });
+});
+
+describe("questionTrigger", () => {
+  it("detects questions", () => {
+    expect(questionTrigger.check(ctx({ content: "Is the build green?" }))).toBe(true);
+    expect(questionTrigger.check(ctx({ content: "how do I reset my password" }))).toBe(true);
+    expect(questionTrigger.check(ctx({ content: "今天开会吗" }))).toBe(true);
+    expect(questionTrigger.check(ctx({ content: "为什么失败了" }))).toBe(true);
+  });
+
+  it("ignores statements and URLs with query strings", () => {
+    expect(questionTrigger.check(ctx({ content: "Deployed to prod" }))).toBe(false);
+    expect(questionTrigger.check(ctx({ content: "see https://example.com?a=1" }))).toBe(false);
+  });
+});
+
+describe("AdminTrigger", () => {
+  it("matches admins by open_id, user_id or name", () => {
+    expect(new AdminTrigger(["ou_1"]).check(ctx())).toBe(true);
+    expect(new AdminTrigger(["u_1"]).check(ctx())).toBe(true);
+    expect(new AdminTrigger(["alice"]).check(ctx())).toBe(true);
+    expect(new AdminTrigger(["ou_2"]).check(ctx())).toBe(false);
+  });
+});
+
+describe("createTriggers", () => {
+  it("uses only the mention trigger by default", () => {
+    expect(names(undefined)).toEqual(["mention"]);
+  });
+
+  it("builds the configured triggers", () => {
+    expect(
+      names({
+        mention: false,
+        keywords: ["deploy"],
+        replyToBot: true,
+        mentionAll: true,
+        questions: true,
+        admins: ["ou_1"],
+        always: true,
+      })
+    ).toEqual(["always", "keyword", "replyToBot", "mentionAll", "question", "admin"]);
+  });
+});
+
+describe("createTriggerResolver", () => {
+  it("lets group settings override account settings per field", () => {
+    const config = {
+      triggers: { keywords: ["deploy"], questions: true },
+      groups: { oc_support: { triggers: { questions: false, replyToBot: true } } },
+    } as Config;
+    const resolve = createTriggerResolver(config, deps);
+
+    expect(resolve("oc_other").map((t) => t.name)).toEqual(["mention", "keyword", "question"]);
+    expect(resolve("oc_support").map((t) => t.name)).toEqual(["mention", "keyword", "replyToBot"]);
+    expect(resolve("oc_support")).toBe(resolve("oc_support"));
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for core/webhook.ts
+ */
+
+import crypto from "node:crypto";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+    computeSignature,
+    decryptEvent,
+    startWebhookServer,
+} from "../../../dist/core/webhook.js";
+
+const ENCRYPT_KEY = "test-encrypt-key";
+const TOKEN = "test-token";
+const PATH = "/feishu/events";
+
+function encrypt(plain: string, key: string): string {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv(
+        "aes-256-cbc",
+        crypto.createHash("sha256").update(key).digest(),
+        iv
+    );
+    return Buffer.concat([iv, cipher.update(plain, "utf8"), cipher.final()]).toString("base64");
+}
+
+describe("decryptEvent", () => {
+    it("decrypts an AES-256-CBC payload", () => {
+        const plain = JSON.stringify({ hello: "world" });
+        expect(decryptEvent(encrypt(plain, ENCRYPT_KEY), ENCRYPT_KEY)).toBe(plain);
+    });
+});
+
+describe("computeSignature", () => {
+    it("hashes timestamp, nonce, key and body", () => {
+        const expected = crypto
+            .createHash("sha256")
+            .update("1" + "n" + ENCRYPT_KEY + "{}")
+            .digest("hex");
+        expect(computeSignature("1", "n", ENCRYPT_KEY, "{}")).toBe(expected);
+    });
+});
+
+describe("startWebhookServer", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let received: unknown[];
+
+    beforeEach(async () => {
+        received = [];
+        server = await startWebhookServer({
+            host: "127.0.0.1",
+            port: 0,
+            path: PATH,
+            encryptKey: ENCRYPT_KEY,
+            verificationToken: TOKEN,
+            handlers: {
+                "im.message.receive_v1": async (data) => {
+                    received.push(data);
+                },
+            },
+        });
+        const { port } = server.address() as AddressInfo;
+        baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    async function post(body: unknown, options: { sign?: boolean; path?: string } = {}) {
+        const raw = JSON.stringify(body);
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (options.sign !== false) {
+            const timestamp = String(Math.floor(Date.now() / 1000));
+            const nonce = "nonce";
+            headers["x-lark-request-timestamp"] = timestamp;
+            headers["x-lark-request-nonce"] = nonce;
+            headers["x-lark-signature"] = computeSignature(timestamp, nonce, ENCRYPT_KEY, raw);
+        }
+        return fetch(`${baseUrl}${options.path ?? PATH}`, { method: "POST", headers, body: raw });
+    }
+
+    it("answers the url_verification challenge", async () => {
+        const res = await post(
+            { encrypt: encrypt(JSON.stringify({ type: "url_verification", challenge: "abc", token: TOKEN }), ENCRYPT_KEY) },
+            { sign: false }
+        );
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ challenge: "abc" });
+    });
+
+    it("rejects a wrong verification token", async () => {
+        const res = await post({ type: "url_verification", challenge: "abc", token: "wrong" });
+        expect(res.status).toBe(401);
+    });
+
+    it("rejects an invalid signature", async () => {
+        const raw = JSON.stringify({ schema: "2.0", header: { token: TOKEN } });
+        const res = await fetch(`${baseUrl}${PATH}`, {
+            method: "POST",
+            headers: {
+                "x-lark-request-timestamp": "1",
+                "x-lark-request-nonce": "n",
+                "x-lark-signature": "bad",
+            },
+            body: raw,
+        });
+        expect(res.status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it("rejects unsigned events when an encryptKey is configured", async () => {
+        const res = await post(
+            { schema: "2.0", header: { event_type: "im.message.receive_v1", token: TOKEN }, event: {} },
+            { sign: false }
+        );
+        expect(res.status).toBe(401);
+        expect(received).toHaveLength(0);
+    });
+
+    it("decrypts and dispatches events with header fields flattened", async () => {
+        const event = {
+            schema: "2.0",
+            header: { event_id: "ev_1", event_type: "im.message.receive_v1", token: TOKEN },
+            event: { message: { message_id: "om_1", chat_id: "oc_1" } },
+        };
+        const res = await post({ encrypt: encrypt(JSON.stringify(event), ENCRYPT_KEY) });
+
+        expect(res.status).toBe(200);
+        expect(received).toHaveLength(1);
+        expect(received[0]).toMatchObject({
+            event_id: "ev_1",
+            event_type: "im.message.receive_v1",
+            message: { message_id: "om_1", chat_id: "oc_1" },
+        });
+    });
+
+    it("acknowledges events without a handler", async () => {
+        const res = await post({
+            schema: "2.0",
+            header: { event_type: "im.chat.updated_v1", token: TOKEN },
+            event: {},
+        });
+        expect(res.status).toBe(200);
+        expect(received).toHaveLength(0);
+    });
+
+    it("answers oversized bodies with 413", async () => {
+        const res = await fetch(`${baseUrl}${PATH}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ padding: "x".repeat(2 * 1024 * 1024) }),
+        });
+        expect(res.status).toBe(413);
+        expect(res.headers.get("connection")).toBe("close");
+        expect(received).toHaveLength(0);
+    });
+
+    it("returns 404 for other paths", async () => {
+        const res = await post({}, { path: "/other" });
+        expect(res.status).toBe(404);
+    });
+});
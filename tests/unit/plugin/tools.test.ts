@@ -3,10 +3,18 @@
  */
 
 import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import {
   createListMessagesTool,
+  createMediaLookupTool,
+  createReactTool,
+  createRecallMessageTool,
   createSendCardTool,
 } from "../../../dist/plugin/tools.js";
+import { getMediaCache } from "../../../dist/core/media-cache.js";
+import { getApiClient } from "../../../dist/api/client.js";
 
 // ============================================================================
 // createListMessagesTool Tests
@@ -106,6 +114,22 @@ describe("createSendCardTool", () => {
     expect(result.content[0].text).not.toContain("Target not specified");
   });
 
+  it("updates an existing card without requiring a target", async () => {
+    const mockConfig = { appId: "test", appSecret: "secret" };
+    const tool = createSendCardTool({
+      getConfig: () => mockConfig as ReturnType<typeof createSendCardTool extends (opts: { getConfig: () => infer R }) => unknown ? () => R : never>,
+    });
+
+    // Fails at API call level, but must take the update path
+    const result = await tool.execute("test-id", {
+      updateMessageId: "om_card",
+      elements: [{ tag: "markdown", content: "Approved" }],
+    });
+
+    expect(result.content[0].text).not.toContain("Target not specified");
+    expect(result.content[0].text).toContain("Card send failed");
+  });
+
   it("description includes button/action documentation", () => {
     const tool = createSendCardTool({ getConfig: () => undefined });
 
@@ -115,3 +139,195 @@ describe("createSendCardTool", () => {
     expect(tool.description).toContain("url");
   });
 });
+
+// ============================================================================
+// createMediaLookupTool Tests
+// ============================================================================
+
+describe("createMediaLookupTool", () => {
+  it("returns error when config is not available", async () => {
+    const tool = createMediaLookupTool({ getConfig: () => undefined });
+    const result = await tool.execute("test-id", {});
+
+    expect(tool.name).toBe("feishu_media");
+    expect(result.content[0].text).toContain("Feishu not configured");
+  });
+
+  it("returns error outside a Feishu conversation", async () => {
+    const config = { appId: "test", appSecret: "secret" };
+    const tool = createMediaLookupTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", {});
+
+    expect(result.content[0].text).toContain("only available in Feishu conversations");
+  });
+
+  it("finds cached files by file_key and message", async () => {
+    const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-media-tool-"));
+    const config = { appId: "test", appSecret: "secret", mediaDir };
+    await getMediaCache(config).put("img_1", Buffer.from("png"), {
+      messageId: "om_1",
+      accountId: "default",
+      chatId: "oc_1",
+      contentType: "image/png",
+      ext: ".png",
+    });
+    const tool = createMediaLookupTool({
+      getConfig: () => config,
+      getConversation: () => ({ accountId: "default", chatId: "oc_1" }),
+    });
+
+    const byKey = await tool.execute("test-id", { fileKey: "img_1" });
+    expect(byKey.details).toMatchObject({ files: [{ fileKey: "img_1", messageId: "om_1" }] });
+
+    const byMessage = await tool.execute("test-id", { messageId: "om_2" });
+    expect(byMessage.details).toEqual({ files: [] });
+
+    const missing = await tool.execute("test-id", { fileKey: "img_2" });
+    expect(missing.content[0].text).toContain("No cached file");
+
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  });
+
+  it("only returns files received in the calling chat and account", async () => {
+    const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-media-tool-"));
+    const config = { appId: "test", appSecret: "secret", mediaDir };
+    const put = (fileKey: string, accountId: string, chatId: string) =>
+      getMediaCache(config).put(fileKey, Buffer.from(fileKey), {
+        messageId: "om_1",
+        accountId,
+        chatId,
+        contentType: "image/png",
+        ext: ".png",
+      });
+    await put("img_here", "default", "oc_1");
+    await put("img_other_chat", "default", "oc_2");
+    await put("img_other_account", "work", "oc_1");
+    const tool = createMediaLookupTool({
+      getConfig: () => config,
+      getConversation: () => ({ accountId: "default", chatId: "oc_1" }),
+    });
+
+    const listed = await tool.execute("test-id", {});
+    expect(listed.details).toMatchObject({ files: [{ fileKey: "img_here" }] });
+    expect((listed.details as { files: unknown[] }).files).toHaveLength(1);
+
+    for (const fileKey of ["img_other_chat", "img_other_account"]) {
+      const refused = await tool.execute("test-id", { fileKey });
+      expect(refused.content[0].text).toContain("No cached file");
+    }
+
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  });
+});
+
+// ============================================================================
+// createRecallMessageTool Tests
+// ============================================================================
+
+describe("createRecallMessageTool", () => {
+  const config = { appId: "cli_recall_bot", appSecret: "secret" };
+  const recalled: string[] = [];
+  const client = getApiClient(config) as unknown as {
+    im: { message: { get: unknown; delete: unknown } };
+  };
+  client.im.message.get = async (payload: { path: { message_id: string } }) => {
+    const id = payload.path.message_id;
+    const sender =
+      id === "om_bot"
+        ? { id: "cli_recall_bot", id_type: "app_id", sender_type: "app" }
+        : { id: "ou_user", id_type: "open_id", sender_type: "user" };
+    return { code: 0, data: { items: [{ message_id: id, msg_type: "text", sender }] } };
+  };
+  client.im.message.delete = async (payload: { path: { message_id: string } }) => {
+    recalled.push(payload.path.message_id);
+    return { code: 0 };
+  };
+
+  it("returns error when messageId is missing", async () => {
+    const tool = createRecallMessageTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", {});
+
+    expect(tool.name).toBe("feishu_recall_message");
+    expect(result.content[0].text).toContain("messageId is required");
+  });
+
+  it("recalls a message sent by the bot", async () => {
+    const tool = createRecallMessageTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", { messageId: "om_bot" });
+
+    expect(result.details).toEqual({ success: true, messageId: "om_bot" });
+    expect(recalled).toEqual(["om_bot"]);
+  });
+
+  it("refuses to recall messages from users", async () => {
+    const tool = createRecallMessageTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", { messageId: "om_user" });
+
+    expect(result.content[0].text).toContain("Only messages sent by this bot");
+    expect(recalled).not.toContain("om_user");
+  });
+});
+
+// ============================================================================
+// createReactTool Tests
+// ============================================================================
+
+describe("createReactTool", () => {
+  const config = { appId: "cli_react_bot", appSecret: "secret" };
+  const added: Record<string, unknown>[] = [];
+  const removed: string[] = [];
+  const client = getApiClient(config) as unknown as {
+    im: { messageReaction: { create: unknown; list: unknown; delete: unknown } };
+  };
+  client.im.messageReaction.create = async (payload: Record<string, unknown>) => {
+    added.push(payload);
+    return { code: 0, data: { reaction_id: "r_new" } };
+  };
+  client.im.messageReaction.list = async () => ({
+    code: 0,
+    data: {
+      items: [
+        { reaction_id: "r_bot", reaction_type: { emoji_type: "CHECK" }, operator_type: "app" },
+        { reaction_id: "r_user", reaction_type: { emoji_type: "CHECK" }, operator_type: "user" },
+      ],
+    },
+  });
+  client.im.messageReaction.delete = async (payload: { path: { reaction_id: string } }) => {
+    removed.push(payload.path.reaction_id);
+    return { code: 0 };
+  };
+
+  it("adds a reaction by emoji name", async () => {
+    const tool = createReactTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", { messageId: "om_1", emoji: "thumbsup" });
+
+    expect(tool.name).toBe("feishu_react");
+    expect(result.details).toMatchObject({ emojiType: "THUMBSUP", reactionId: "r_new" });
+    expect(added.at(-1)).toMatchObject({
+      path: { message_id: "om_1" },
+      data: { reaction_type: { emoji_type: "THUMBSUP" } },
+    });
+  });
+
+  it("removes only the bot's own reaction", async () => {
+    const tool = createReactTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", {
+      messageId: "om_1",
+      emoji: "CHECK",
+      remove: true,
+    });
+
+    expect(result.details).toMatchObject({ removed: 1 });
+    expect(removed).toEqual(["r_bot"]);
+  });
+
+  it("rejects emojis outside the Emoji map", async () => {
+    const tool = createReactTool({ getConfig: () => config });
+    const result = await tool.execute("test-id", { messageId: "om_1", emoji: "UNICORN" });
+
+    expect(result.details).toMatchObject({
+      error: expect.stringContaining('Unknown emoji "UNICORN"'),
+    });
+    expect(added).toHaveLength(1);
+  });
+});